@@ -0,0 +1,117 @@
+import { execFileSync } from 'child_process';
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { createChangeset } from './changeset.ts';
+import { DEFAULT_SOURCE } from './config.ts';
+import { hashTree, manifestKey, readManifest } from './copy.ts';
+import { SKILL_FILE } from './skills.ts';
+import type { SyncOptions } from './sync.ts';
+
+/** Where a version of an adoptable skill lives: an agent dir, or the source itself */
+export interface SkillVersion {
+  /** Agent name, or "source" for a skill already in the source */
+  from: string;
+  dir: string;
+  hash: string;
+}
+
+export interface AdoptCandidate {
+  name: string;
+  versions: SkillVersion[];
+  /** True when the versions differ in content and one has to be picked */
+  conflict: boolean;
+}
+
+/**
+ * Find real skill directories (with a SKILL.md) in the agents' skill dirs
+ * that skillink did not create. Versions are grouped by skill name; an
+ * existing source skill of the same name is listed first, as "source".
+ */
+export function findAdoptable(root: string, options: SyncOptions): AdoptCandidate[] {
+  const source = options.source ?? DEFAULT_SOURCE;
+  const manifest = readManifest(root);
+  const found = new Map<string, SkillVersion[]>();
+
+  for (const [agentName, agentConfig] of Object.entries(options.agents)) {
+    const agentSkillsDir = join(root, agentConfig.skillsDir);
+    if (!existsSync(agentSkillsDir)) continue;
+
+    for (const entry of readdirSync(agentSkillsDir, { withFileTypes: true })) {
+      const dir = join(agentSkillsDir, entry.name);
+      if (!entry.isDirectory() || !existsSync(join(dir, SKILL_FILE))) continue;
+      if (manifest.copies[manifestKey(root, dir)]) continue;
+
+      const versions = found.get(entry.name) ?? [];
+      versions.push({ from: agentName, dir, hash: hashTree(dir) });
+      found.set(entry.name, versions);
+    }
+  }
+
+  return [...found.keys()].sort().map((name) => {
+    const versions = found.get(name)!;
+    const existing = join(root, source, name);
+    if (existsSync(existing)) {
+      versions.unshift({ from: 'source', dir: existing, hash: hashTree(existing) });
+    }
+    return {
+      name,
+      versions,
+      conflict: new Set(versions.map((v) => v.hash)).size > 1,
+    };
+  });
+}
+
+/**
+ * Move the picked version into the source and delete the agent copies, so
+ * the next sync replaces them with links. With `journal`, the changes join
+ * that run, so undo brings the agent copies back. Returns the directories
+ * removed.
+ */
+export function adoptSkill(
+  root: string,
+  source: string,
+  candidate: AdoptCandidate,
+  pick: SkillVersion,
+  options: Pick<SyncOptions, 'dryRun' | 'journal'> = {},
+): string[] {
+  const target = join(root, source, candidate.name);
+  const removed = candidate.versions.filter((v) => v.from !== 'source').map((v) => v.dir);
+  if (options.dryRun) return removed;
+
+  const changes = createChangeset();
+  try {
+    if (pick.from !== 'source') {
+      changes.copy(pick.dir, target);
+    }
+    for (const dir of removed) {
+      changes.remove(dir);
+    }
+    // Adopting leaves the copy manifest alone
+    options.journal?.record(root, changes.entries(), {}, {});
+  } finally {
+    changes.dispose();
+  }
+
+  return removed;
+}
+
+/** Unified diff of two skill directories; falls back to a file list without `diff` */
+export function diffSkills(a: string, b: string): string {
+  try {
+    execFileSync('diff', ['-ruN', a, b], { stdio: 'pipe' });
+    return '';
+  } catch (e) {
+    const err = e as NodeJS.ErrnoException & { status?: number; stdout?: Buffer };
+    // diff exits 1 when the trees differ
+    if (err.status === 1 && err.stdout) return err.stdout.toString();
+    if (err.code !== 'ENOENT') throw e;
+  }
+
+  const files = (dir: string) => readdirSync(dir, { recursive: true }).map(String).sort();
+  const left = new Set(files(a));
+  const right = new Set(files(b));
+  return [...new Set([...left, ...right])]
+    .sort()
+    .map((f) => (left.has(f) && right.has(f) ? `  ${f}` : left.has(f) ? `- ${f}` : `+ ${f}`))
+    .join('\n');
+}
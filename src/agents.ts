@@ -1,25 +1,101 @@
-import type { AgentConfig } from './types.ts';
+import { statSync } from 'fs';
+import { join } from 'path';
+import type { AgentConfig, Scope } from './types.ts';
 
 /**
- * Agent registry — project-level only.
+ * Agent registry.
  *
- * Source: .agents/skills/ (canonical)
- * Targets: each agent's own skill directory (need symlinks).
+ * Source: .agents/skills/ (canonical), in the project or the home directory
+ * Targets: each agent's own skill directory (need symlinks), or its rules
+ * directory for agents with their own rule format.
  */
 export const agents: Record<string, AgentConfig> = {
   opencode: {
     name: 'opencode',
     displayName: 'OpenCode',
     skillsDir: '.opencode/skills',
+    globalSkillsDir: '.config/opencode/skills',
+    detect: ['opencode.json', 'opencode.jsonc', '.opencode/'],
+    globalDetect: ['.config/opencode/'],
   },
   'claude-code': {
     name: 'claude-code',
     displayName: 'Claude Code',
     skillsDir: '.claude/skills',
+    globalSkillsDir: '.claude/skills',
+    detect: ['CLAUDE.md', '.claude/'],
+    globalDetect: ['.claude/'],
+  },
+  // Agents below read rule files, so skills are rendered instead of linked
+  'cursor-rules': {
+    name: 'cursor-rules',
+    displayName: 'Cursor rules',
+    skillsDir: '.cursor/rules',
+    mode: 'transform',
+    format: 'cursor',
+    detect: ['.cursor/', '.cursorrules'],
+  },
+  'copilot-instructions': {
+    name: 'copilot-instructions',
+    displayName: 'Copilot instructions',
+    skillsDir: '.github/instructions',
+    mode: 'transform',
+    format: 'copilot',
+    detect: ['.github/copilot-instructions.md', '.github/instructions/'],
+  },
+  'windsurf-rules': {
+    name: 'windsurf-rules',
+    displayName: 'Windsurf rules',
+    skillsDir: '.windsurf/rules',
+    mode: 'transform',
+    format: 'windsurf',
+    detect: ['.windsurf/', '.windsurfrules'],
   },
 };
 
 /** All agents are targets — they all need symlinks from .agents/skills/ */
-export function getTargetAgents(): string[] {
-  return Object.keys(agents);
+export function getTargetAgents(
+  registry: Record<string, AgentConfig> = agents,
+): string[] {
+  return Object.keys(registry);
+}
+
+/**
+ * Agents a command targets when none are selected. Rule-format agents
+ * write files people commit, so they are only included when the project
+ * already uses them (their markers are detected) or `configured` names them.
+ */
+export function getDefaultAgents(
+  registry: Record<string, AgentConfig>,
+  root: string,
+  scope: Scope,
+  configured: string[] = [],
+): string[] {
+  return getTargetAgents(registry).filter(
+    (name) =>
+      registry[name].mode !== 'transform' ||
+      configured.includes(name) ||
+      detectAgent(registry[name], root, scope).length > 0,
+  );
+}
+
+/** Skills directory for a scope; undefined if the agent has no user-level dir */
+export function getSkillsDir(agent: AgentConfig, scope: Scope): string | undefined {
+  return scope === 'global' ? agent.globalSkillsDir : agent.skillsDir;
+}
+
+/**
+ * Markers showing that the agent is used in the scope's root (see
+ * `detect`); empty if none were found.
+ */
+export function detectAgent(agent: AgentConfig, root: string, scope: Scope): string[] {
+  const markers = (scope === 'global' ? agent.globalDetect : agent.detect) ?? [];
+  return markers.filter((marker) => {
+    try {
+      const stat = statSync(join(root, marker));
+      return !marker.endsWith('/') || stat.isDirectory();
+    } catch {
+      return false;
+    }
+  });
 }
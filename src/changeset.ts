@@ -0,0 +1,171 @@
+import {
+  cpSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readlinkSync,
+  rmdirSync,
+  rmSync,
+  symlinkSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { copyTree } from './copy.ts';
+
+export type Change =
+  | { type: 'mkdir'; path: string }
+  | { type: 'link'; path: string; target: string }
+  | { type: 'unlink'; path: string; target: string }
+  | { type: 'write'; path: string; backup?: string }
+  | { type: 'remove'; path: string; backup: string };
+
+/**
+ * File system changes made during a sync, recorded so they can be undone.
+ * Trees that are replaced or removed are backed up to a temp dir first.
+ */
+export interface Changeset {
+  /** Number of changes so far; pass to rollback() to undo back to this point */
+  readonly size: number;
+  /** Changes so far, oldest first; backups stay valid until dispose() */
+  entries(): Change[];
+  symlink(target: string, path: string): void;
+  unlink(path: string): void;
+  /** Replace dest with a copy of src */
+  copy(src: string, dest: string): void;
+  /** Create or overwrite a file */
+  writeFile(path: string, content: string): void;
+  remove(path: string): void;
+  /** Undo changes newest first, down to `size` (default: all). Throws if any can't be undone. */
+  rollback(size?: number): void;
+  /** Delete backups; call once the changes are final */
+  dispose(): void;
+}
+
+export function createChangeset(): Changeset {
+  const changes: Change[] = [];
+  let backupDir: string | undefined;
+
+  const backup = (path: string): string => {
+    backupDir ??= mkdtempSync(join(tmpdir(), 'skillink-backup-'));
+    const dest = join(backupDir, String(changes.length));
+    restore(path, dest);
+    return dest;
+  };
+
+  const ensureDir = (dir: string) => {
+    if (existsSync(dir)) return;
+    // Record each missing ancestor so rollback can remove them again
+    ensureDir(dirname(dir));
+    mkdirSync(dir);
+    changes.push({ type: 'mkdir', path: dir });
+  };
+
+  return {
+    get size() {
+      return changes.length;
+    },
+
+    entries() {
+      return [...changes];
+    },
+
+    symlink(target, path) {
+      ensureDir(dirname(path));
+      symlinkSync(target, path, 'dir');
+      changes.push({ type: 'link', path, target });
+    },
+
+    unlink(path) {
+      if (!isSymlink(path)) {
+        throw new Error(`${path} is not a symlink`);
+      }
+      const target = readlinkSync(path);
+      unlinkSync(path);
+      changes.push({ type: 'unlink', path, target });
+    },
+
+    copy(src, dest) {
+      const saved = existsSync(dest) ? backup(dest) : undefined;
+      ensureDir(dirname(dest));
+      changes.push({ type: 'write', path: dest, backup: saved });
+      copyTree(src, dest);
+    },
+
+    writeFile(path, content) {
+      const saved = existsSync(path) ? backup(path) : undefined;
+      ensureDir(dirname(path));
+      changes.push({ type: 'write', path, backup: saved });
+      writeFileSync(path, content);
+    },
+
+    remove(path) {
+      const saved = backup(path);
+      changes.push({ type: 'remove', path, backup: saved });
+      rmSync(path, { recursive: true, force: true });
+    },
+
+    rollback(size = 0) {
+      const failed: string[] = [];
+      while (changes.length > size) {
+        const change = changes.pop()!;
+        try {
+          undoChange(change);
+        } catch (e) {
+          failed.push(`${change.path}: ${e instanceof Error ? e.message : e}`);
+        }
+      }
+      if (failed.length > 0) {
+        throw new Error(`Could not roll back ${failed.join('; ')}`);
+      }
+    },
+
+    dispose() {
+      if (backupDir) rmSync(backupDir, { recursive: true, force: true });
+      backupDir = undefined;
+      changes.length = 0;
+    },
+  };
+}
+
+/** Reverse a single change, restoring backups of what it replaced */
+export function undoChange(change: Change): void {
+  switch (change.type) {
+    case 'mkdir':
+      if (existsSync(change.path) && readdirSync(change.path).length === 0) {
+        rmdirSync(change.path);
+      }
+      break;
+    case 'link':
+      if (isSymlink(change.path)) unlinkSync(change.path);
+      break;
+    case 'unlink':
+      if (isSymlink(change.path)) unlinkSync(change.path);
+      symlinkSync(change.target, change.path, 'dir');
+      break;
+    case 'write':
+      rmSync(change.path, { recursive: true, force: true });
+      if (change.backup) restore(change.backup, change.path);
+      break;
+    case 'remove':
+      rmSync(change.path, { recursive: true, force: true });
+      restore(change.backup, change.path);
+      break;
+  }
+}
+
+/** Copy a tree as-is, keeping nested symlinks */
+export function restore(from: string, to: string): void {
+  cpSync(from, to, { recursive: true, verbatimSymlinks: true });
+}
+
+function isSymlink(path: string): boolean {
+  try {
+    return lstatSync(path).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
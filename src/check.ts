@@ -0,0 +1,153 @@
+import type { StatusEntry } from './sync.ts';
+
+export type ProblemKind = 'unlinked' | 'wrong' | 'dangling' | 'unmanaged';
+
+/**
+ * Exit code bit for each kind of problem. `check` exits with the OR of every
+ * kind found, so CI can tell them apart (1 stays reserved for errors).
+ */
+export const CHECK_EXIT_CODES: Record<ProblemKind, number> = {
+  unlinked: 2,
+  wrong: 4,
+  dangling: 8,
+  unmanaged: 16,
+};
+
+export const PROBLEM_DESCRIPTIONS: Record<ProblemKind, string> = {
+  unlinked: 'Skill is not distributed to the agent, or its copy or generated rule is stale',
+  wrong: 'Agent entry does not match the source (wrong link target or locally modified copy)',
+  dangling: 'Link into the source whose skill no longer exists',
+  unmanaged: 'Real directory in the agent dir that skillink does not manage',
+};
+
+export interface CheckProblem {
+  kind: ProblemKind;
+  agent: string;
+  skill: string;
+  /** Agent entry, relative to the root */
+  path: string;
+  message: string;
+}
+
+export interface CheckResult {
+  statuses: StatusEntry[];
+  problems: CheckProblem[];
+  /** 0 when there are no problems */
+  exitCode: number;
+}
+
+export type ReportFormat = 'junit' | 'sarif';
+
+/** Turn status entries into problems; stale copies and rules count as unlinked, modified copies as wrong */
+export function checkStatus(statuses: StatusEntry[]): CheckResult {
+  const problems: CheckProblem[] = [];
+
+  for (const status of statuses) {
+    const add = (kind: ProblemKind, skills: string[], message: string) => {
+      for (const skill of skills) {
+        problems.push({
+          kind,
+          agent: status.agent,
+          skill,
+          path: `${status.skillsDir}/${skill}`,
+          message,
+        });
+      }
+    };
+
+    add('unlinked', status.unlinked, 'not linked');
+    add('unlinked', status.stale, 'copy or generated rule is stale');
+    add('wrong', status.wrong, 'links to the wrong target');
+    add('wrong', status.modified, 'copy was modified locally');
+    add('dangling', status.dangling, 'links to a skill that no longer exists');
+    add('unmanaged', status.unmanaged, 'real directory not managed by skillink');
+  }
+
+  const exitCode = problems.reduce((code, p) => code | CHECK_EXIT_CODES[p.kind], 0);
+  return { statuses, problems, exitCode };
+}
+
+/** Infer the report format from the file name: .sarif/.json → SARIF, otherwise JUnit */
+export function inferReportFormat(file: string): ReportFormat {
+  return /\.(sarif|json)$/i.test(file) ? 'sarif' : 'junit';
+}
+
+export function formatReport(result: CheckResult, format: ReportFormat, version: string): string {
+  return format === 'sarif' ? formatSarif(result, version) : formatJUnit(result);
+}
+
+/** One test suite per agent, one test case per skill entry */
+export function formatJUnit(result: CheckResult): string {
+  const suites = result.statuses.map((status) => {
+    const passed = [...status.linked, ...status.copied, ...status.generated];
+    const problems = result.problems.filter((p) => p.agent === status.agent);
+    const cases = [
+      ...passed.map(
+        (skill) =>
+          `    <testcase name="${escapeXml(skill)}" classname="skillink.${escapeXml(status.agent)}"/>`,
+      ),
+      ...problems.map(
+        (p) =>
+          `    <testcase name="${escapeXml(p.skill)}" classname="skillink.${escapeXml(status.agent)}">\n` +
+          `      <failure type="${p.kind}" message="${escapeXml(`${p.path}: ${p.message}`)}"/>\n` +
+          `    </testcase>`,
+      ),
+    ];
+
+    return (
+      `  <testsuite name="${escapeXml(status.agent)}" tests="${cases.length}" failures="${problems.length}">\n` +
+      (cases.length > 0 ? cases.join('\n') + '\n' : '') +
+      `  </testsuite>`
+    );
+  });
+
+  const tests = result.statuses.reduce(
+    (n, s) => n + s.linked.length + s.copied.length + s.generated.length,
+    result.problems.length,
+  );
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<testsuites name="skillink check" tests="${tests}" failures="${result.problems.length}">\n` +
+    (suites.length > 0 ? suites.join('\n') + '\n' : '') +
+    '</testsuites>\n'
+  );
+}
+
+/** SARIF 2.1.0 log with one rule per problem kind */
+export function formatSarif(result: CheckResult, version: string): string {
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'skillink',
+            version,
+            rules: Object.entries(PROBLEM_DESCRIPTIONS).map(([id, text]) => ({
+              id,
+              shortDescription: { text },
+            })),
+          },
+        },
+        results: result.problems.map((p) => ({
+          ruleId: p.kind,
+          level: 'error',
+          message: { text: `${p.skill} (${p.agent}): ${p.message}` },
+          locations: [{ physicalLocation: { artifactLocation: { uri: p.path } } }],
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2) + '\n';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
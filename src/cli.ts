@@ -2,13 +2,76 @@
 
 import pc from 'picocolors';
 import * as p from '@clack/prompts';
-import { existsSync, readFileSync } from 'fs';
-import { dirname, join } from 'path';
+import { existsSync, mkdirSync, readFileSync, readlinkSync, writeFileSync } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
 import { fileURLToPath } from 'url';
-import { agents, getTargetAgents } from './agents.ts';
-import { syncSkills, cleanSkills, getStatus, type SyncOptions } from './sync.ts';
-
-const CANONICAL_SOURCE = '.agents/skills';
+import { adoptSkill, diffSkills, findAdoptable, type AdoptCandidate } from './adopt.ts';
+import { detectAgent, getDefaultAgents, getSkillsDir, getTargetAgents } from './agents.ts';
+import {
+  CHECK_EXIT_CODES,
+  checkStatus,
+  formatReport,
+  inferReportFormat,
+  type ProblemKind,
+  type ReportFormat,
+} from './check.ts';
+import { getHomeDir, loadConfig, type ResolvedConfig } from './config.ts';
+import { applyFixes, diagnose, type Finding } from './doctor.ts';
+import {
+  HOOK_NAMES,
+  installedHooks,
+  installHooks,
+  uninstallHooks,
+  type HookChange,
+} from './hooks.ts';
+import { installSkill, openSkillPackage, uninstallSkill } from './install.ts';
+import {
+  createJournalRun,
+  readJournal,
+  undoLastRun,
+  type JournalChange,
+  type JournalRun,
+} from './journal.ts';
+import { buildLock, LOCK_FILE, verifyLock, writeLock } from './lock.ts';
+import { buildMatrix, renderMatrix, type CellState } from './matrix.ts';
+import { listTemplates, scaffoldSkill, TEMPLATES_DIR, type SkillFolder } from './scaffold.ts';
+import {
+  discoverSkills,
+  findFlattenCollisions,
+  findIgnoredSkills,
+  findNameClashes,
+  flattenName,
+  isValidSkill,
+  isValidSkillName,
+  loadLayeredSkills,
+  loadSkill,
+  skillCategory,
+} from './skills.ts';
+import { collectStats, type StatsViolation } from './stats.ts';
+import {
+  syncSkills,
+  cleanSkills,
+  getStatus,
+  isDirectory,
+  isSymlink,
+  type StatusEntry,
+  type SyncOptions,
+} from './sync.ts';
+import { watchSkills } from './watch.ts';
+import {
+  findCollisions,
+  findWorkspaces,
+  shadowedSkills,
+  workspacePrefix,
+  type Collision,
+} from './workspaces.ts';
+import type {
+  DistributionMode,
+  Scope,
+  SyncEntry,
+  SyncResult,
+  WorkspaceMode,
+} from './types.ts';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -25,6 +88,43 @@ function getVersion(): string {
 
 const VERSION = getVersion();
 
+/** Set by --json: stdout carries only JSON, diagnostics go to stderr */
+let jsonOutput = false;
+
+/** Version of the --json output schema (documented in README) */
+const JSON_SCHEMA_VERSION = 1;
+
+const ANSI_RE = /\x1b\[[0-9;]*m/g;
+
+const log = {
+  info: (message: string) => (jsonOutput ? stderr(message) : p.log.info(message)),
+  warn: (message: string) => (jsonOutput ? stderr(`warning: ${message}`) : p.log.warn(message)),
+  success: (message: string) => (jsonOutput ? undefined : p.log.success(message)),
+  /** In --json mode errors are printed as { error } and set a failing exit code */
+  error: (message: string) => {
+    if (!jsonOutput) {
+      p.log.error(message);
+      return;
+    }
+    printJson({ error: message.replace(ANSI_RE, '') });
+    process.exitCode = 1;
+  },
+};
+
+function stderr(message: string): void {
+  console.error(message.replace(ANSI_RE, ''));
+}
+
+function printJson(data: object, pretty = true): void {
+  const output = { version: JSON_SCHEMA_VERSION, ...data };
+  console.log(pretty ? JSON.stringify(output, null, 2) : JSON.stringify(output));
+}
+
+/** Prompts only make sense when a person is watching both ends of the terminal */
+function isInteractive(args: ParsedArgs): boolean {
+  return !args.json && !args.yes && !!process.stdin.isTTY && !!process.stdout.isTTY;
+}
+
 function showHelp(): void {
   console.log(`
 ${pc.bold('skillink')} — Symlink skills from .agents/skills/ to other agents (project-level)
@@ -34,13 +134,49 @@ ${pc.bold('Usage:')} skillink <command> [options]
 ${pc.bold('Commands:')}
   sync              Symlink all skills to target agents
   clean             Remove symlinks created by skillink
+  new <name>        Create a skill from a template, then sync
+  add <path>        Install a skill from a directory or .tgz/.zip archive
+  remove <skills>   Delete skills from the source and unlink them everywhere (asks first)
   status            Show distribution status
+  check             Exit non-zero if any agent is out of sync (for CI)
+  validate          Check SKILL.md files for problems
+  stats             Report skill sizes and estimated token counts
+  doctor            Diagnose broken or non-portable links and suggest fixes
+  lock              Record skill content hashes in .agents/skills.lock.json
+  verify            Fail if skills changed without updating the lockfile
+  watch             Sync, then re-sync whenever skills change
+  hooks <action>    Install or uninstall git hooks that sync after checkout
+  undo              Reverse the last sync or clean
+  history           List journaled runs that undo can reverse
+  import            Move real skill dirs from agent dirs into the source
   agents            List supported agents
   help              Show this help
 
 ${pc.bold('Options:')}
   --agent <names>   Specify agents (space-separated, skips prompt)
+  --detected        Only agents found in the project (skips prompt)
+  --skill <names>   Only these skills (space-separated; sync, status, clean)
+  --exclude <glob>  Leave out skills matching the glob (repeatable)
+  --source <dir>    Skill source directory (default: .agents/skills; repeat to layer)
   --dry-run         Preview changes without applying
+  --no-prune        Keep dangling links to deleted skills (sync)
+  --prune-ignored   Remove links to skills in .skillinkignore (sync)
+  --adopt           Import real skill dirs from agents first (sync)
+  --mode <mode>     Distribute as "symlink" (default) or "copy"
+  --force           Overwrite or remove locally modified copies
+  --atomic          Undo every change if any link or copy fails
+  --fix             Apply the safe fixes doctor suggests
+  --workspaces <m>  Include workspace packages: "packages" or "root"
+  -g, --global      Use ~/.agents/skills and agents' user-level dirs
+  --scope <scope>   project (default), global, or all (status only)
+  --json            Print machine-readable JSON (implies no prompts)
+  --verbose         Show a skill × agent matrix and unmanaged entries (status)
+  --report <file>   Write a JUnit or SARIF report (check)
+  --report-format   junit or sarif (default: from the file extension)
+  --description     Description for a new skill (skips prompt)
+  --template <name> Template for a new skill (built-in or .agents/templates)
+  --scripts         Add a scripts/ folder to a new skill
+  --references      Add a references/ folder to a new skill
   -y, --yes         Skip prompts, sync all agents
   --version, -v     Show version
 
@@ -49,24 +185,94 @@ ${pc.bold('Examples:')}
   ${pc.dim('$')} skillink sync --agent claude-code opencode  ${pc.dim('# non-interactive: specific agents')}
   ${pc.dim('$')} skillink sync -y                            ${pc.dim('# non-interactive: all agents')}
   ${pc.dim('$')} skillink status                             ${pc.dim('# check current state')}
+  ${pc.dim('$')} skillink check --report skillink.xml        ${pc.dim('# fail CI on broken links')}
   ${pc.dim('$')} skillink clean                              ${pc.dim('# remove all symlinks')}
+  ${pc.dim('$')} skillink add ../shared/my-skill.tgz -y      ${pc.dim('# install a skill, then sync')}
+  ${pc.dim('$')} skillink sync -g -y                         ${pc.dim('# personal skills in ~/.agents/skills')}
 
-${pc.dim('Source: .agents/skills/')}
+${pc.dim('Config: skillink.config.json or "skillink" in package.json')}
 `);
 }
 
 interface ParsedArgs {
   command: string;
+  /** Non-flag arguments after the command */
+  positionals: string[];
+  /** Options for new */
+  description?: string;
+  template?: string;
+  folders: SkillFolder[];
   agents: string[];
+  /** --skill: only these skills */
+  skills: string[];
+  /** --exclude, repeatable: skill globs to leave out */
+  exclude: string[];
+  /** --source, repeatable: lowest precedence first */
+  sources: string[];
   dryRun: boolean;
+  prune: boolean;
+  pruneIgnored: boolean;
+  /** Move real skill dirs from agent dirs into the source before syncing */
+  adopt: boolean;
+  mode?: DistributionMode;
+  force: boolean;
+  atomic: boolean;
+  /** Apply doctor's safe fixes */
+  fix: boolean;
+  /** Only the agents whose marker files exist */
+  detected: boolean;
+  workspaces?: WorkspaceMode;
+  scope: Scope | 'all';
+  json: boolean;
+  /** status: per-skill matrix and unmanaged entries */
+  verbose: boolean;
+  /** Report file written by check */
+  report?: string;
+  reportFormat?: ReportFormat;
   yes: boolean;
 }
 
+/** Where a command operates: the project or the home directory, with its config */
+interface Context {
+  scope: Scope;
+  root: string;
+  config: ResolvedConfig;
+}
+
+/** The value given to a flag that takes one, e.g. `--source <dir>` */
+function requireValue(flag: string, placeholder: string, value: string | undefined): string {
+  if (value === undefined || value.startsWith('--')) {
+    throw new Error(`Missing ${placeholder} after ${flag} (usage: ${flag} <${placeholder}>)`);
+  }
+  return value;
+}
+
 function parseArgs(argv: string[]): ParsedArgs {
   const args = argv.slice(2);
   const command = args[0] || 'help';
   const agentFilters: string[] = [];
+  const skills: string[] = [];
+  const exclude: string[] = [];
+  const positionals: string[] = [];
+  const folders: SkillFolder[] = [];
+  let description: string | undefined;
+  let template: string | undefined;
+  const sources: string[] = [];
   let dryRun = false;
+  let prune = true;
+  let pruneIgnored = false;
+  let adopt = false;
+  let mode: DistributionMode | undefined;
+  let force = false;
+  let atomic = false;
+  let fix = false;
+  let detected = false;
+  let workspaces: WorkspaceMode | undefined;
+  let scope: Scope | 'all' = 'project';
+  let json = false;
+  let verbose = false;
+  let report: string | undefined;
+  let reportFormat: ReportFormat | undefined;
   let yes = false;
 
   for (let i = 1; i < args.length; i++) {
@@ -77,8 +283,69 @@ function parseArgs(argv: string[]): ParsedArgs {
         i++;
         agentFilters.push(args[i]);
       }
+    } else if (arg === '--skill') {
+      while (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+        i++;
+        skills.push(args[i]);
+      }
+    } else if (arg === '--exclude') {
+      exclude.push(requireValue(arg, 'glob', args[++i]));
+    } else if (arg === '--source') {
+      sources.push(requireValue(arg, 'dir', args[++i]));
     } else if (arg === '--dry-run') {
       dryRun = true;
+    } else if (arg === '--no-prune') {
+      prune = false;
+    } else if (arg === '--prune-ignored') {
+      pruneIgnored = true;
+    } else if (arg === '--adopt') {
+      adopt = true;
+    } else if (arg === '--mode') {
+      const value = args[++i];
+      if (value !== 'symlink' && value !== 'copy') {
+        throw new Error(`Invalid --mode "${value}" (expected symlink or copy)`);
+      }
+      mode = value;
+    } else if (arg === '--force') {
+      force = true;
+    } else if (arg === '--atomic') {
+      atomic = true;
+    } else if (arg === '--fix') {
+      fix = true;
+    } else if (arg === '--detected') {
+      detected = true;
+    } else if (arg === '--workspaces') {
+      const value = args[++i];
+      if (value !== 'packages' && value !== 'root') {
+        throw new Error(`Invalid --workspaces "${value}" (expected packages or root)`);
+      }
+      workspaces = value;
+    } else if (arg === '-g' || arg === '--global') {
+      scope = 'global';
+    } else if (arg === '--scope') {
+      const value = args[++i];
+      if (value !== 'project' && value !== 'global' && value !== 'all') {
+        throw new Error(`Invalid --scope "${value}" (expected project, global or all)`);
+      }
+      scope = value;
+    } else if (arg === '--json') {
+      json = true;
+    } else if (arg === '--verbose') {
+      verbose = true;
+    } else if (arg === '--description') {
+      description = requireValue(arg, 'text', args[++i]);
+    } else if (arg === '--template') {
+      template = requireValue(arg, 'name', args[++i]);
+    } else if (arg === '--scripts' || arg === '--references') {
+      folders.push(arg.slice(2) as SkillFolder);
+    } else if (arg === '--report') {
+      report = requireValue(arg, 'file', args[++i]);
+    } else if (arg === '--report-format') {
+      const value = args[++i];
+      if (value !== 'junit' && value !== 'sarif') {
+        throw new Error(`Invalid --report-format "${value}" (expected junit or sarif)`);
+      }
+      reportFormat = value;
     } else if (arg === '-y' || arg === '--yes') {
       yes = true;
     } else if (arg === '--version' || arg === '-v') {
@@ -87,23 +354,111 @@ function parseArgs(argv: string[]): ParsedArgs {
     } else if (arg === '--help' || arg === '-h') {
       showHelp();
       process.exit(0);
+    } else if (!arg.startsWith('-')) {
+      positionals.push(arg);
     }
   }
 
-  return { command, agents: agentFilters, dryRun, yes };
+  return {
+    command,
+    positionals,
+    description,
+    template,
+    folders,
+    agents: agentFilters,
+    skills,
+    exclude,
+    sources,
+    dryRun,
+    prune,
+    pruneIgnored,
+    adopt,
+    mode,
+    force,
+    atomic,
+    fix,
+    detected,
+    workspaces,
+    scope,
+    json,
+    verbose,
+    report,
+    reportFormat,
+    yes,
+  };
+}
+
+/** Build the context for a scope; the global scope reads config from the home dir */
+function createContext(scope: Scope, args: ParsedArgs): Context {
+  const root = scope === 'global' ? getHomeDir() : process.cwd();
+  const config = loadConfig(root);
+  if (args.sources.length > 0) {
+    config.source = args.sources[args.sources.length - 1];
+    config.layers = args.sources.slice(0, -1);
+  }
+  return { scope, root, config };
+}
+
+function describeScope(ctx: Context): string {
+  return ctx.scope === 'global' ? 'home directory' : 'current project';
+}
+
+/** Agents that have a skills directory in the context's scope */
+function scopeAgents(ctx: Context): string[] {
+  const { agents } = ctx.config;
+  return getTargetAgents(agents).filter((name) => getSkillsDir(agents[name], ctx.scope));
+}
+
+/** Agents of the scope used when none are selected; rule-format agents are opt-in */
+function defaultAgents(ctx: Context): string[] {
+  const { agents, customAgents } = ctx.config;
+  const defaults = getDefaultAgents(agents, ctx.root, ctx.scope, customAgents);
+  return scopeAgents(ctx).filter((name) => defaults.includes(name));
+}
+
+/** All source layers, lowest precedence first */
+function contextSources(ctx: Context): string[] {
+  return [...ctx.config.layers, ctx.config.source];
+}
+
+/** Report a missing source dir; returns false so callers can bail out */
+function checkSource(ctx: Context): boolean {
+  const missing = contextSources(ctx).find((source) => !existsSync(join(ctx.root, source)));
+  if (!missing) return true;
+  log.error(`${pc.bold(missing + '/')} not found in ${describeScope(ctx)}.`);
+  if (!jsonOutput) {
+    log.info('Create the directory and add your skills first, then re-run.');
+  }
+  return false;
+}
+
+/** Agents of the scope whose marker files exist, with the markers found */
+function detectedAgents(ctx: Context): Record<string, string[]> {
+  const detected: Record<string, string[]> = {};
+  for (const name of scopeAgents(ctx)) {
+    const found = detectAgent(ctx.config.agents[name], ctx.root, ctx.scope);
+    if (found.length > 0) detected[name] = found;
+  }
+  return detected;
 }
 
-/** Prompt user to select agents interactively */
-async function promptAgents(): Promise<string[] | null> {
-  const targets = getTargetAgents();
+/** Prompt user to select agents interactively; detected agents are pre-selected */
+async function promptAgents(ctx: Context): Promise<string[] | null> {
+  const { agents } = ctx.config;
+  const targets = scopeAgents(ctx);
+
+  const detected = detectedAgents(ctx);
 
   const selected = await p.multiselect({
     message: 'Select agents to sync to',
     options: targets.map((name) => ({
       value: name,
       label: agents[name].displayName,
-      hint: agents[name].skillsDir,
+      hint: detected[name]
+        ? `${getSkillsDir(agents[name], ctx.scope)} · found ${detected[name].join(', ')}`
+        : getSkillsDir(agents[name], ctx.scope),
     })),
+    initialValues: targets.filter((name) => detected[name]),
     required: true,
   });
 
@@ -115,28 +470,94 @@ async function promptAgents(): Promise<string[] | null> {
   return selected as string[];
 }
 
-function buildSyncOptions(agentNames: string[], dryRun: boolean): SyncOptions {
-  const targetAgents: Record<string, { skillsDir: string }> = {};
+/** Mode precedence: --mode > agent config > project config > symlink (transform agents keep theirs) */
+function buildSyncOptions(
+  ctx: Context,
+  agentNames: string[],
+  args: ParsedArgs,
+): SyncOptions {
+  const { config } = ctx;
+  const targetAgents: SyncOptions['agents'] = {};
 
   for (const name of agentNames) {
-    if (agents[name]) {
-      targetAgents[name] = { skillsDir: agents[name].skillsDir };
+    const agent = config.agents[name];
+    if (!agent) {
+      log.warn(`Unknown agent: ${pc.bold(name)}`);
+      continue;
+    }
+
+    const skillsDir = getSkillsDir(agent, ctx.scope);
+    if (!skillsDir) {
+      log.warn(`${pc.bold(name)} has no ${ctx.scope}-level skills directory, skipping`);
+      continue;
     }
+
+    // Rule-format agents can't take links or copies, so --mode doesn't apply
+    targetAgents[name] = {
+      skillsDir,
+      mode: agent.mode === 'transform' ? 'transform' : (args.mode ?? agent.mode),
+      format: agent.format,
+    };
   }
 
   return {
     agents: targetAgents,
-    dryRun,
+    filterSkills: args.skills.length > 0 ? args.skills : undefined,
+    exclude: args.exclude.length > 0 ? args.exclude : undefined,
+    pruneIgnored: args.pruneIgnored,
+    dryRun: args.dryRun,
+    source: config.source,
+    layers: config.layers,
+    prune: args.prune,
+    mode: args.mode ?? config.mode,
+    force: args.force,
+    atomic: args.atomic,
+    skills: config.skills,
+    flatten: config.flatten,
+  };
+}
+
+function formatCreated(entry: SyncEntry): string {
+  return `${pc.green('✓')} ${entry.skill} ${pc.dim('→')} ${entry.agent}`;
+}
+
+function formatRemoved(entry: SyncEntry): string {
+  const reason = entry.reason ? ` ${pc.dim(`(${entry.reason})`)}` : '';
+  return `${pc.yellow('−')} ${entry.skill} ${pc.dim('✕')} ${entry.agent}${reason}`;
+}
+
+function formatFailed(entry: SyncEntry): string {
+  return `${pc.red('✗')} ${entry.skill} ${pc.dim('→')} ${entry.agent} ${pc.red(entry.reason || 'failed')}`;
+}
+
+/** JSON shape shared by sync, clean, add and remove (see README) */
+function syncResultJson(result: SyncResult, args: ParsedArgs, ctx: Context): object {
+  return {
+    scope: ctx.scope,
+    root: ctx.root,
+    source: ctx.config.source,
+    dryRun: args.dryRun,
+    created: result.created,
+    removed: result.removed,
+    skipped: result.skipped,
+    failed: result.failed,
+    rolledBack: result.rolledBack ?? false,
   };
 }
 
 function printSyncResult(
-  result: ReturnType<typeof syncSkills>,
+  result: SyncResult,
   action: 'Linked' | 'Removed',
 ): void {
   if (result.created.length > 0) {
     for (const entry of result.created) {
-      console.log(`  ${pc.green('✓')} ${entry.skill} ${pc.dim('→')} ${entry.agent}`);
+      console.log(`  ${formatCreated(entry)}`);
+    }
+  }
+
+  if (result.removed.length > 0) {
+    for (const entry of result.removed) {
+      console.log(`  ${formatRemoved(entry)}`);
     }
   }
 
@@ -148,9 +569,7 @@ function printSyncResult(
 
   if (result.failed.length > 0) {
     for (const entry of result.failed) {
-      console.log(
-        `  ${pc.red('✗')} ${entry.skill} ${pc.red(entry.reason || 'failed')}`,
-      );
+      console.log(`  ${formatFailed(entry)}`);
     }
   }
 
@@ -158,105 +577,1428 @@ function printSyncResult(
   const parts: string[] = [];
   if (result.created.length > 0)
     parts.push(pc.green(`${result.created.length} ${action.toLowerCase()}`));
+  if (result.removed.length > 0)
+    parts.push(
+      pc.yellow(`${result.removed.length} ${action === 'Removed' ? 'removed' : 'pruned'}`),
+    );
   if (result.skipped.length > 0)
     parts.push(pc.dim(`${result.skipped.length} skipped`));
   if (result.failed.length > 0) parts.push(pc.red(`${result.failed.length} failed`));
   if (parts.length > 0) console.log(`  ${parts.join(', ')}`);
+
+  if (result.rolledBack) {
+    console.log();
+    log.warn('Rolled back: nothing was changed because some entries failed.');
+  }
 }
 
-/** Resolve which agents to operate on: explicit > yes (all) > interactive */
-async function resolveAgents(args: ParsedArgs): Promise<string[] | null> {
+/**
+ * Resolve which agents to operate on:
+ * explicit > --detected > config defaults > yes / non-interactive (all) > prompt
+ */
+async function resolveAgents(
+  args: ParsedArgs,
+  ctx: Context,
+): Promise<string[] | null> {
+  const { config } = ctx;
   if (args.agents.length > 0) {
     return args.agents;
   }
-  if (args.yes) {
-    return getTargetAgents();
+  if (args.detected) {
+    const detected = Object.keys(detectedAgents(ctx));
+    if (detected.length === 0) {
+      log.warn(
+        `No agents detected in ${describeScope(ctx)}. Run ${pc.bold('skillink agents')} to see what is looked for.`,
+      );
+      return null;
+    }
+    return detected;
+  }
+  if (config.defaultAgents.length > 0) {
+    return config.defaultAgents;
+  }
+  if (!isInteractive(args)) {
+    return defaultAgents(ctx);
   }
-  return promptAgents();
+  return promptAgents(ctx);
 }
 
-async function cmdSync(args: ParsedArgs): Promise<void> {
-  const root = process.cwd();
-  if (!existsSync(join(root, CANONICAL_SOURCE))) {
-    p.log.error(`${pc.bold(CANONICAL_SOURCE + '/')} not found in current project.`);
-    p.log.info('Create the directory and add your skills first, then re-run.');
-    return;
+/** A workspace package, with the context and options it is synced with */
+interface PackageUnit {
+  name: string;
+  dir: string;
+  ctx: Context;
+  /** prefix and filterSkills when gathered into the root */
+  extra: Pick<SyncOptions, 'prefix' | 'filterSkills'>;
+}
+
+interface WorkspacePlan {
+  mode: WorkspaceMode;
+  packages: PackageUnit[];
+  collisions: Collision[];
+}
+
+/**
+ * Plan a workspace run from --workspaces or the config (project scope only).
+ * In "packages" mode each package uses its own dir and config; in "root"
+ * mode its skills go to the root's agent dirs as `<pkg>-<skill>`, and skills
+ * that lose a name collision are left out.
+ */
+function planWorkspaces(args: ParsedArgs, ctx: Context): WorkspacePlan | null {
+  const mode = args.workspaces ?? ctx.config.workspaces;
+  if (!mode || ctx.scope !== 'project') return null;
+
+  const workspaces = findWorkspaces(ctx.root);
+  if (workspaces.length === 0) {
+    log.warn('No workspace packages with skills found.');
+  }
+
+  if (mode === 'packages') {
+    const packages = workspaces.map((ws) => {
+      const root = join(ctx.root, ws.dir);
+      return {
+        name: ws.name,
+        dir: ws.dir,
+        ctx: { scope: ctx.scope, root, config: loadConfig(root) },
+        extra: {},
+      };
+    });
+    return { mode, packages, collisions: [] };
   }
 
-  const selected = await resolveAgents(args);
+  const rootSource = existsSync(join(ctx.root, ctx.config.source)) ? ctx.config.source : undefined;
+  const collisions = findCollisions(ctx.root, rootSource, workspaces, ctx.config.flatten);
+  const packages = workspaces.map((ws) => {
+    const source = `${ws.dir}/${ws.source}`;
+    const shadowed = shadowedSkills(ws, collisions);
+    return {
+      name: ws.name,
+      dir: ws.dir,
+      ctx: { ...ctx, config: { ...ctx.config, source, layers: [] } },
+      extra: {
+        prefix: workspacePrefix(ws),
+        filterSkills:
+          shadowed.length > 0
+            ? discoverSkills(ctx.root, source).filter((skill) => !shadowed.includes(skill))
+            : undefined,
+      },
+    };
+  });
+
+  return { mode, packages, collisions };
+}
+
+/** A package's options: its prefix, and its skill list narrowed by --skill */
+function packageOptions(options: SyncOptions, extra: PackageUnit['extra']): SyncOptions {
+  const filterSkills =
+    extra.filterSkills && options.filterSkills
+      ? extra.filterSkills.filter((skill) => options.filterSkills!.includes(skill))
+      : (extra.filterSkills ?? options.filterSkills);
+  return { ...options, ...extra, filterSkills };
+}
+
+function warnCollisions(collisions: Collision[]): void {
+  for (const c of collisions) {
+    log.warn(
+      `${pc.bold(c.name)} is provided by ${c.claimedBy.join(', ')} — using ${c.claimedBy[0]}`,
+    );
+  }
+}
+
+/** Sync or clean the root (if it has a source) and every workspace package */
+async function runWorkspaces(
+  command: 'sync' | 'clean',
+  args: ParsedArgs,
+  ctx: Context,
+  plan: WorkspacePlan,
+): Promise<void> {
+  if (args.adopt) {
+    throw new Error('--adopt is not supported with --workspaces');
+  }
+
+  const selected = await resolveAgents(args, ctx);
   if (!selected) return;
 
-  const options = buildSyncOptions(selected, args.dryRun);
+  const rootUnit: PackageUnit[] = existsSync(join(ctx.root, ctx.config.source))
+    ? [{ name: 'root', dir: '.', ctx, extra: {} }]
+    : [];
+  // Clean packages first so the root doesn't report their links as foreign
+  const units =
+    command === 'sync' ? [...rootUnit, ...plan.packages] : [...plan.packages, ...rootUnit];
+  const run = command === 'sync' ? syncSkills : cleanSkills;
+  // Every package's changes go into one journal run at the root
+  const journal = createJournalRun(ctx.root, command);
+  const results = units.map((unit) => {
+    const options = packageOptions(buildSyncOptions(unit.ctx, selected, args), unit.extra);
+    return { unit, result: run(unit.ctx.root, { ...options, journal }) };
+  });
+  if (results.some(({ result }) => result.failed.length > 0)) process.exitCode = 1;
+
+  if (jsonOutput) {
+    warnCollisions(plan.collisions);
+    printJson({
+      command,
+      workspaces: plan.mode,
+      collisions: plan.collisions,
+      packages: results.map(({ unit, result }) => ({
+        name: unit.name,
+        dir: unit.dir,
+        prefix: unit.extra.prefix ?? null,
+        ...syncResultJson(result, args, unit.ctx),
+      })),
+    });
+    return;
+  }
 
   if (args.dryRun) {
     console.log(pc.yellow('  Dry run — no changes will be made\n'));
   }
 
+  results.forEach(({ unit, result }, i) => {
+    if (i > 0) console.log();
+    console.log(`  ${pc.bold(pc.underline(unit.name))} ${pc.dim(`(${unit.dir})`)}`);
+    console.log();
+    printSyncResult(result, command === 'sync' ? 'Linked' : 'Removed');
+  });
+
+  if (command === 'sync' && plan.collisions.length > 0) {
+    console.log();
+    warnCollisions(plan.collisions);
+  }
+}
+
+async function cmdSync(args: ParsedArgs, ctx: Context): Promise<void> {
+  const { root } = ctx;
+  const plan = planWorkspaces(args, ctx);
+  if (plan) return runWorkspaces('sync', args, ctx, plan);
+  if (!checkSource(ctx)) return;
+
+  const selected = await resolveAgents(args, ctx);
+  if (!selected) return;
+
+  // Adopted skills are journaled in the same run as the sync
+  const options: SyncOptions = {
+    ...buildSyncOptions(ctx, selected, args),
+    journal: createJournalRun(root, 'sync'),
+  };
+  const adopted = args.adopt ? await adoptSkills(args, ctx, options) : null;
+  if (args.adopt && !adopted) return;
+
   const result = syncSkills(root, options);
+  if (result.failed.length > 0) process.exitCode = 1;
+
+  if (jsonOutput) {
+    printJson({ command: 'sync', ...adopted, ...syncResultJson(result, args, ctx) });
+    return;
+  }
+
+  if (args.dryRun) {
+    console.log(pc.yellow('  Dry run — no changes will be made\n'));
+  }
+
   printSyncResult(result, 'Linked');
+
+  if (result.skipped.some((e) => e.reason?.startsWith('invalid'))) {
+    console.log();
+    log.warn(`Some skills were not linked. Run ${pc.bold('skillink validate')} for details.`);
+  }
+  if (result.skipped.some((e) => e.reason === 'ignored but still linked')) {
+    console.log();
+    log.warn(
+      `Some ignored skills are still linked. Run ${pc.bold('skillink sync --prune-ignored')} to remove them.`,
+    );
+  }
 }
 
-async function cmdClean(args: ParsedArgs): Promise<void> {
-  const selected = await resolveAgents(args);
+async function cmdImport(args: ParsedArgs, ctx: Context): Promise<void> {
+  const selected = await resolveAgents(args, ctx);
   if (!selected) return;
 
-  const options = buildSyncOptions(selected, args.dryRun);
-  const root = process.cwd();
+  const options = buildSyncOptions(ctx, selected, args);
+  const adopted = await adoptSkills(args, ctx, options);
+  if (!adopted) return;
+
+  const result = syncSkills(ctx.root, options);
+  if (result.failed.length > 0) process.exitCode = 1;
+
+  if (jsonOutput) {
+    printJson({ command: 'import', ...adopted, ...syncResultJson(result, args, ctx) });
+    return;
+  }
+
+  if (adopted.adopted.length === 0 && adopted.notAdopted.length === 0) {
+    log.info('No real skill directories to import.');
+    return;
+  }
+
+  console.log();
+  printSyncResult(result, 'Linked');
+}
+
+interface AdoptReport {
+  adopted: { skill: string; from: string; replaced: string[] }[];
+  notAdopted: { skill: string; reason: string }[];
+}
+
+/**
+ * Move real skill dirs found in the agents' dirs into the source. Versions
+ * that differ are diffed and picked interactively; without a TTY they are
+ * left alone. Returns null if the user cancels.
+ */
+async function adoptSkills(
+  args: ParsedArgs,
+  ctx: Context,
+  options: SyncOptions,
+): Promise<AdoptReport | null> {
+  const { root, config } = ctx;
+  const report: AdoptReport = { adopted: [], notAdopted: [] };
+
+  for (const candidate of findAdoptable(root, options)) {
+    let pick = candidate.versions[0];
+
+    if (candidate.conflict) {
+      if (!isInteractive(args)) {
+        const reason = `differs between ${candidate.versions.map((v) => v.from).join(', ')}`;
+        report.notAdopted.push({ skill: candidate.name, reason });
+        log.warn(`${pc.bold(candidate.name)} ${reason} — run interactively to pick one`);
+        continue;
+      }
+
+      const picked = await pickVersion(candidate, ctx);
+      if (p.isCancel(picked)) {
+        p.cancel('Cancelled.');
+        return null;
+      }
+      if (picked === null) {
+        report.notAdopted.push({ skill: candidate.name, reason: 'skipped' });
+        continue;
+      }
+      pick = picked;
+    }
+
+    const replaced = adoptSkill(root, config.source, candidate, pick, {
+      dryRun: args.dryRun,
+      journal: options.journal,
+    });
+    report.adopted.push({
+      skill: candidate.name,
+      from: pick.from,
+      replaced: replaced.map((dir) => relative(root, dir)),
+    });
+    log.success(
+      `Imported ${pc.bold(candidate.name)} ${pc.dim(`from ${pick.from} → ${config.source}/${candidate.name}`)}`,
+    );
+  }
+
+  return report;
+}
+
+/** Show how each version differs from the first and ask which one to keep */
+async function pickVersion(candidate: AdoptCandidate, ctx: Context) {
+  const [first, ...rest] = candidate.versions;
+  for (const other of rest) {
+    if (other.hash === first.hash) continue;
+    console.log();
+    console.log(`  ${pc.bold(candidate.name)}: ${first.from} ${pc.dim('vs')} ${other.from}`);
+    for (const line of diffSkills(first.dir, other.dir).split('\n')) {
+      const color = line.startsWith('+') ? pc.green : line.startsWith('-') ? pc.red : pc.dim;
+      console.log(`    ${color(line)}`);
+    }
+  }
+  console.log();
+
+  return p.select({
+    message: `${candidate.name} differs between agents. Which version should become the source?`,
+    options: [
+      ...candidate.versions.map((version) => ({
+        value: version,
+        label: version.from,
+        hint: relative(ctx.root, version.dir),
+      })),
+      { value: null, label: 'Skip', hint: 'leave all versions in place' },
+    ],
+  });
+}
+
+async function cmdWatch(args: ParsedArgs, ctx: Context): Promise<void> {
+  const { root } = ctx;
+  if (!checkSource(ctx)) return;
+
+  const selected = await resolveAgents(args, ctx);
+  if (!selected) return;
+
+  const options = buildSyncOptions(ctx, selected, args);
+  const initial = syncSkills(root, options);
+
+  // In --json mode every sync is one compact JSON line (NDJSON)
+  if (jsonOutput) {
+    printJson({ command: 'watch', event: 'sync', ...syncResultJson(initial, args, ctx) }, false);
+  } else {
+    printSyncResult(initial, 'Linked');
+    console.log();
+    const sources = contextSources(ctx).map((s) => pc.bold(s + '/'));
+    log.info(`Watching ${sources.join(', ')} — press Ctrl+C to stop`);
+  }
+
+  await new Promise<void>((done) => {
+    const stop = watchSkills(root, options, {
+      onSync: (result) => {
+        if (jsonOutput) {
+          printJson({ command: 'watch', event: 'sync', ...syncResultJson(result, args, ctx) }, false);
+          return;
+        }
+        // Only report what changed; skipped entries repeat on every run
+        const time = pc.dim(new Date().toLocaleTimeString());
+        for (const entry of result.created) console.log(`  ${time} ${formatCreated(entry)}`);
+        for (const entry of result.removed) console.log(`  ${time} ${formatRemoved(entry)}`);
+        for (const entry of result.failed) console.log(`  ${time} ${formatFailed(entry)}`);
+      },
+      onError: (e) => {
+        const message = e instanceof Error ? e.message : String(e);
+        if (jsonOutput) {
+          printJson({ command: 'watch', event: 'error', error: message }, false);
+          return;
+        }
+        console.log(`  ${pc.red('✗')} ${pc.red(message)}`);
+      },
+    });
+
+    process.once('SIGINT', () => {
+      stop();
+      done();
+    });
+  });
+}
+
+async function cmdNew(args: ParsedArgs, ctx: Context): Promise<void> {
+  const { root, config } = ctx;
+  const [name] = args.positionals;
+  if (!name) {
+    log.error(`Usage: ${pc.bold('skillink new <name>')}`);
+    process.exit(1);
+  }
+  // Check up front so nobody answers prompts for a skill that can't be created
+  if (!isValidSkillName(name)) {
+    log.error(
+      `Invalid skill name ${pc.bold(name)}: use lowercase letters, digits and hyphens (max 64).`,
+    );
+    process.exit(1);
+  }
+  if (existsSync(join(root, config.source, name))) {
+    log.error(`Skill ${pc.bold(name)} already exists in ${config.source}/`);
+    process.exit(1);
+  }
+
+  const interactive = isInteractive(args);
+  let description = args.description;
+  if (description === undefined) {
+    if (!interactive) {
+      log.error(`Pass ${pc.bold('--description')} to create a skill without prompts.`);
+      process.exit(1);
+    }
+    const answer = await p.text({
+      message: 'Description',
+      placeholder: 'What the skill does and when to use it',
+      validate: (value) => (value?.trim() ? undefined : 'A description is required'),
+    });
+    if (p.isCancel(answer)) {
+      p.cancel('Cancelled.');
+      return;
+    }
+    description = answer;
+  }
+
+  let template = args.template;
+  const templates = listTemplates(root);
+  if (template === undefined && interactive && templates.length > 2) {
+    const answer = await p.select({
+      message: 'Template',
+      options: templates.map((t) => ({
+        value: t.name,
+        label: t.name,
+        hint: t.builtin ? 'built-in' : TEMPLATES_DIR,
+      })),
+    });
+    if (p.isCancel(answer)) {
+      p.cancel('Cancelled.');
+      return;
+    }
+    template = answer;
+  }
+
+  let folders = args.folders;
+  if (folders.length === 0 && interactive) {
+    const answer = await p.multiselect({
+      message: 'Extra folders',
+      options: [
+        { value: 'scripts' as const, label: 'scripts/', hint: 'executable helpers' },
+        { value: 'references' as const, label: 'references/', hint: 'docs loaded on demand' },
+      ],
+      required: false,
+    });
+    if (p.isCancel(answer)) {
+      p.cancel('Cancelled.');
+      return;
+    }
+    folders = answer;
+  }
+
+  if (args.dryRun) {
+    if (jsonOutput) {
+      printJson({ command: 'new', skill: name, template: template ?? 'default', folders, dryRun: true });
+    } else {
+      console.log(pc.yellow(`  Dry run — would create ${config.source}/${name}\n`));
+    }
+    return;
+  }
+
+  const dir = scaffoldSkill(root, config.source, name, { description, template, folders });
+  log.success(`Created ${pc.bold(name)} ${pc.dim(`→ ${relative(root, dir)}/`)}`);
+
+  // A project template can still produce a broken SKILL.md
+  for (const issue of loadSkill(dir, name).issues) {
+    log.warn(`${relative(root, issue.file)}: ${issue.message}`);
+  }
+
+  const selected = await resolveAgents(args, ctx);
+  if (!selected) return;
+
+  const result = syncSkills(root, buildSyncOptions(ctx, selected, args));
+  if (result.failed.length > 0) process.exitCode = 1;
+
+  if (jsonOutput) {
+    printJson({
+      command: 'new',
+      skill: name,
+      path: relative(root, dir),
+      template: template ?? 'default',
+      folders,
+      ...syncResultJson(result, args, ctx),
+    });
+    return;
+  }
+
+  console.log();
+  printSyncResult(result, 'Linked');
+}
+
+async function cmdAdd(args: ParsedArgs, ctx: Context): Promise<void> {
+  const { root, config } = ctx;
+  const [input] = args.positionals;
+  if (!input) {
+    log.error(`Usage: ${pc.bold('skillink add <path|file.tgz|file.zip>')}`);
+    process.exit(1);
+  }
+
+  const pkg = openSkillPackage(root, input);
+  let replaced = false;
+
+  try {
+    if (existsSync(join(root, config.source, pkg.name)) && !args.force) {
+      if (!isInteractive(args)) {
+        log.error(
+          `Skill ${pc.bold(pkg.name)} already exists. Use ${pc.bold('--force')} to replace it.`,
+        );
+        // Not process.exit(), so the finally block removes an extracted archive
+        process.exitCode = 1;
+        return;
+      }
+
+      const replace = await p.confirm({
+        message: `Skill ${pkg.name} already exists. Replace it?`,
+        initialValue: false,
+      });
+      if (p.isCancel(replace) || !replace) {
+        p.cancel('Cancelled.');
+        return;
+      }
+    }
+
+    if (args.dryRun) {
+      if (jsonOutput) {
+        printJson({ command: 'add', skill: pkg.name, origin: pkg.origin, dryRun: true });
+      } else {
+        console.log(pc.yellow(`  Dry run — would add ${pkg.name} to ${config.source}/\n`));
+      }
+      return;
+    }
+
+    replaced = installSkill(root, config.source, pkg, { force: true }).replaced;
+    log.success(
+      `${replaced ? 'Replaced' : 'Added'} ${pc.bold(pkg.name)} ${pc.dim(`→ ${config.source}/${pkg.name}`)}`,
+    );
+  } finally {
+    pkg.cleanup();
+  }
+
+  const selected = await resolveAgents(args, ctx);
+  if (!selected) return;
+
+  const result = syncSkills(root, buildSyncOptions(ctx, selected, args));
+  if (result.failed.length > 0) process.exitCode = 1;
+
+  if (jsonOutput) {
+    printJson({
+      command: 'add',
+      skill: pkg.name,
+      origin: pkg.origin,
+      replaced,
+      ...syncResultJson(result, args, ctx),
+    });
+    return;
+  }
+
+  console.log();
+  printSyncResult(result, 'Linked');
+}
+
+async function cmdRemove(args: ParsedArgs, ctx: Context): Promise<void> {
+  const { root, config } = ctx;
+  const names = args.positionals;
+  if (names.length === 0) {
+    log.error(`Usage: ${pc.bold('skillink remove <skill...>')}`);
+    process.exit(1);
+  }
+
+  for (const name of names) {
+    if (!name.split('/').every(isValidSkillName)) {
+      log.error(`Invalid skill name ${pc.bold(name)}`);
+      process.exit(1);
+    }
+    if (!existsSync(join(root, config.source, name))) {
+      log.error(`Skill ${pc.bold(name)} not found in ${config.source}/`);
+      process.exit(1);
+    }
+  }
+
+  // Deleting from the source can't be undone, so it is never implied
+  if (!args.dryRun && !args.yes) {
+    if (!isInteractive(args)) {
+      log.error(
+        `remove deletes skills from ${config.source}/. Pass ${pc.bold('--yes')} to confirm, or use ${pc.bold('skillink clean')} to only unlink them.`,
+      );
+      process.exit(1);
+    }
+
+    const confirmed = await p.confirm({
+      message: `Delete ${names.join(', ')} from ${config.source}/? This can't be undone.`,
+      initialValue: false,
+    });
+    if (p.isCancel(confirmed) || !confirmed) {
+      p.cancel('Cancelled.');
+      return;
+    }
+  }
+
+  // Unlink from every agent, not just the selected ones
+  const options = buildSyncOptions(ctx, scopeAgents(ctx), args);
+  const result = cleanSkills(root, { ...options, filterSkills: names });
+  // Keep skills whose links could not be removed, so nothing is left dangling
+  const removable = names.filter(
+    (name) =>
+      !result.rolledBack &&
+      !result.failed.some((e) => e.skill === flattenName(name, config.flatten)),
+  );
+  if (result.failed.length > 0) process.exitCode = 1;
+
+  if (!args.dryRun) {
+    for (const name of removable) {
+      uninstallSkill(root, config.source, name);
+    }
+  }
+
+  if (jsonOutput) {
+    printJson({ command: 'remove', skills: removable, ...syncResultJson(result, args, ctx) });
+    return;
+  }
 
   if (args.dryRun) {
     console.log(pc.yellow('  Dry run — no changes will be made\n'));
   }
 
-  const result = cleanSkills(root, options);
   printSyncResult(result, 'Removed');
+  if (removable.length > 0) {
+    console.log();
+    log.success(
+      `Removed ${removable.map((n) => pc.bold(n)).join(', ')} from ${config.source}/`,
+    );
+  }
+}
+
+async function cmdClean(args: ParsedArgs, ctx: Context): Promise<void> {
+  const plan = planWorkspaces(args, ctx);
+  if (plan) return runWorkspaces('clean', args, ctx, plan);
+
+  const selected = await resolveAgents(args, ctx);
+  if (!selected) return;
+
+  const options = buildSyncOptions(ctx, selected, args);
+  const result = cleanSkills(ctx.root, { ...options, journal: createJournalRun(ctx.root, 'clean') });
+  if (result.failed.length > 0) process.exitCode = 1;
+
+  if (jsonOutput) {
+    printJson({ command: 'clean', ...syncResultJson(result, args, ctx) });
+    return;
+  }
+
+  if (args.dryRun) {
+    console.log(pc.yellow('  Dry run — no changes will be made\n'));
+  }
+
+  printSyncResult(result, 'Removed');
+}
+
+interface ScopeStatus {
+  scope: Scope;
+  root: string;
+  source: string;
+  /** Lower-precedence sources, lowest first */
+  layers: string[];
+  /** False when a source directory does not exist */
+  exists: boolean;
+  /** Skills that replace ones in lower layers */
+  overrides: { skill: string; source: string; overrides: string[] }[];
+  /** Nested skills by category */
+  categories: Record<string, string[]>;
+  /** Skills left out of sync because their agent dir names collide */
+  collisions: { name: string; skills: string[] }[];
+  /** Skills left out by a .skillinkignore */
+  ignored: string[];
+  agents: StatusEntry[];
+}
+
+/**
+ * Agents that status, check and doctor look at: the ones named, the detected
+ * ones with --detected, else those sync would link by default
+ */
+function inspectedAgents(args: ParsedArgs, ctx: Context): string[] {
+  if (args.agents.length > 0) return args.agents;
+  if (args.detected) return Object.keys(detectedAgents(ctx));
+  return ctx.config.defaultAgents.length > 0 ? ctx.config.defaultAgents : defaultAgents(ctx);
+}
+
+function collectStatus(
+  args: ParsedArgs,
+  ctx: Context,
+  extra: PackageUnit['extra'] = {},
+): ScopeStatus {
+  const { root, config } = ctx;
+  const options = packageOptions(buildSyncOptions(ctx, inspectedAgents(args, ctx), args), extra);
+  const exists = contextSources(ctx).every((source) => existsSync(join(root, source)));
+  const layered = exists ? loadLayeredSkills(root, contextSources(ctx)) : [];
+  const skills = layered.map((s) => s.skill.dirName);
+  const categories: Record<string, string[]> = {};
+  for (const skill of skills) {
+    const category = skillCategory(skill);
+    if (category) (categories[category] ??= []).push(skill);
+  }
+
+  return {
+    scope: ctx.scope,
+    root,
+    source: config.source,
+    layers: config.layers,
+    exists,
+    overrides: layered
+      .filter((s) => s.overrides.length > 0)
+      .map((s) => ({ skill: s.skill.dirName, source: s.source, overrides: s.overrides })),
+    categories,
+    collisions: [...findFlattenCollisions(skills, config.flatten)].map(([name, skills]) => ({
+      name,
+      skills,
+    })),
+    ignored: exists
+      ? [...new Set(contextSources(ctx).flatMap((s) => findIgnoredSkills(root, s)))].filter(
+          (skill) => !skills.includes(skill),
+        )
+      : [],
+    agents: exists ? getStatus(root, options) : [],
+  };
 }
 
 function cmdStatus(args: ParsedArgs): void {
-  const agentNames = args.agents.length > 0 ? args.agents : getTargetAgents();
-  const options = buildSyncOptions(agentNames, false);
-  const root = process.cwd();
+  const contexts =
+    args.scope === 'all'
+      ? [createContext('project', args), createContext('global', args)]
+      : [createContext(args.scope, args)];
+  const scopes = contexts.map((ctx) => collectStatus(args, ctx));
+  const plan = planWorkspaces(args, contexts[0]);
+  const packages = (plan?.packages ?? []).map((unit) => ({
+    name: unit.name,
+    dir: unit.dir,
+    prefix: unit.extra.prefix ?? null,
+    ...collectStatus(args, unit.ctx, unit.extra),
+  }));
+  const clashes =
+    contexts.length === 2
+      ? findNameClashes(
+          { root: contexts[0].root, source: contexts[0].config.source },
+          { root: contexts[1].root, source: contexts[1].config.source },
+        )
+      : [];
 
-  if (!existsSync(join(root, CANONICAL_SOURCE))) {
-    p.log.warn(`${pc.bold(CANONICAL_SOURCE + '/')} not found in current project.`);
+  if (jsonOutput) {
+    printJson({
+      command: 'status',
+      scopes,
+      clashes,
+      ...(plan && { workspaces: plan.mode, packages, collisions: plan.collisions }),
+    });
     return;
   }
 
-  const statuses = getStatus(root, options);
+  scopes.forEach((status, i) => {
+    if (scopes.length > 1) {
+      if (i > 0) console.log();
+      const title = status.scope === 'global' ? 'Global' : 'Project';
+      const where = status.scope === 'global' ? ` ${pc.dim(`(${status.root})`)}` : '';
+      console.log(`  ${pc.bold(pc.underline(title))}${where}`);
+      console.log();
+    }
+    printStatus(status, contexts[i], args.verbose);
+  });
+
+  packages.forEach((status, i) => {
+    console.log();
+    const prefix = status.prefix ? pc.dim(` as ${status.prefix}-*`) : '';
+    console.log(
+      `  ${pc.bold(pc.underline(status.name))} ${pc.dim(`(${status.dir})`)}${prefix}`,
+    );
+    console.log();
+    printStatus(status, plan!.packages[i].ctx, args.verbose);
+  });
+
+  if (clashes.length > 0) {
+    console.log();
+    log.warn(
+      `Skills defined in both scopes: ${clashes.map((n) => pc.bold(n)).join(', ')}`,
+    );
+  }
 
-  console.log(`  ${pc.bold('Source:')} .agents/skills/`);
+  if (plan && plan.collisions.length > 0) {
+    console.log();
+    warnCollisions(plan.collisions);
+  }
+}
+
+function printStatus(status: ScopeStatus, ctx: Context, verbose = false): void {
+  const sources = [...status.layers, status.source];
+  if (!status.exists) {
+    const missing = sources.find((source) => !existsSync(join(status.root, source)));
+    log.warn(`${pc.bold(missing + '/')} not found in ${describeScope(ctx)}.`);
+    return;
+  }
+
+  console.log(`  ${pc.bold('Source:')} ${sources.map((s) => `${s}/`).join(pc.dim(' → '))}`);
+  if (status.overrides.length > 0) {
+    const list = status.overrides.map(
+      (o) => `${o.skill} ${pc.dim(`(${o.source} over ${o.overrides.join(', ')})`)}`,
+    );
+    console.log(`  ${pc.bold('Overrides:')} ${list.join(', ')}`);
+  }
+  const categories = Object.entries(status.categories);
+  if (categories.length > 0) {
+    const list = categories.map(([name, skills]) => `${name}/ ${pc.dim(`(${skills.length})`)}`);
+    console.log(`  ${pc.bold('Categories:')} ${list.join(', ')}`);
+  }
+  if (status.ignored.length > 0) {
+    console.log(`  ${pc.bold('Ignored:')} ${pc.dim(status.ignored.join(', '))}`);
+  }
   console.log();
 
-  for (const status of statuses) {
+  for (const agent of status.agents) {
+    const present =
+      agent.linked.length +
+      agent.copied.length +
+      agent.generated.length +
+      agent.stale.length +
+      agent.modified.length;
     const total =
-      status.linked.length + status.unlinked.length + status.wrong.length;
-    if (total === 0 && status.unlinked.length === 0) continue;
+      present +
+      agent.unlinked.length +
+      agent.wrong.length +
+      agent.dangling.length +
+      agent.unmanaged.length +
+      agent.ignored.length;
+    if (total === 0) continue;
 
     const indicator =
-      status.unlinked.length === 0
+      agent.unlinked.length === 0 && agent.stale.length === 0
         ? pc.green('●')
-        : status.linked.length > 0
+        : present > 0
           ? pc.yellow('◐')
           : pc.dim('○');
 
+    const counts = [pc.green(`${agent.linked.length} linked`)];
+    if (agent.copied.length > 0) counts.push(pc.green(`${agent.copied.length} copied`));
+    if (agent.generated.length > 0)
+      counts.push(pc.green(`${agent.generated.length} generated`));
+    if (agent.stale.length > 0) counts.push(pc.yellow(`${agent.stale.length} stale`));
+    if (agent.modified.length > 0)
+      counts.push(pc.magenta(`${agent.modified.length} modified locally`));
+    if (agent.unlinked.length > 0)
+      counts.push(pc.yellow(`${agent.unlinked.length} unlinked`));
+    if (agent.wrong.length > 0) counts.push(pc.red(`${agent.wrong.length} wrong`));
+    if (agent.dangling.length > 0) counts.push(pc.red(`${agent.dangling.length} dangling`));
+    if (agent.unmanaged.length > 0)
+      counts.push(pc.dim(`${agent.unmanaged.length} unmanaged`));
+    if (agent.ignored.length > 0)
+      counts.push(pc.yellow(`${agent.ignored.length} ignored but linked`));
+    if (agent.notApplicable.length > 0)
+      counts.push(pc.dim(`${agent.notApplicable.length} not applicable`));
+
+    console.log(
+      `  ${indicator} ${pc.bold(agent.agent)} ${pc.dim(`(${agent.skillsDir})`)}`,
+    );
+    console.log(`    ${counts.join(', ')}`);
+
+    if (agent.layers) {
+      const from = Object.values(agent.layers);
+      const perLayer = sources
+        .map((source) => ({ source, count: from.filter((l) => l === source).length }))
+        .filter((l) => l.count > 0)
+        .map((l) => `${l.source}/ ${l.count}`);
+      if (perLayer.length > 0) console.log(`    ${pc.dim(`from ${perLayer.join(', ')}`)}`);
+    }
+  }
+
+  if (verbose) printStatusDetails(status, ctx);
+
+  for (const c of status.collisions) {
+    log.warn(
+      `${c.skills.map((s) => pc.bold(s)).join(' and ')} are both named ${pc.bold(c.name)} in agent dirs — not synced`,
+    );
+  }
+}
+
+const CELL_COLORS: Record<CellState, (text: string) => string> = {
+  linked: pc.green,
+  copied: pc.green,
+  generated: pc.green,
+  stale: pc.yellow,
+  modified: pc.magenta,
+  unlinked: pc.yellow,
+  wrong: pc.red,
+  shadowed: pc.magenta,
+  dangling: pc.red,
+  notApplicable: pc.dim,
+  ignored: pc.yellow,
+};
+
+/** The skill × agent matrix, then entries in agent dirs that skillink didn't make */
+function printStatusDetails(status: ScopeStatus, ctx: Context): void {
+  const matrix = buildMatrix(status.agents);
+  const width = process.stdout.columns || 80;
+  if (matrix.skills.length > 0) {
+    console.log();
+    for (const line of renderMatrix(matrix, width, (state, s) => CELL_COLORS[state](s))) {
+      console.log(line);
+    }
+  }
+
+  const unmanaged = status.agents.flatMap((agent) =>
+    [...agent.unmanaged.filter((name) => !agent.shadowed.includes(name)), ...agent.foreign].map(
+      (name) => ({ agent, name }),
+    ),
+  );
+  if (unmanaged.length === 0) return;
+
+  console.log();
+  console.log(`  ${pc.bold('Unmanaged')} ${pc.dim('(not made by skillink, left alone)')}`);
+  for (const { agent, name } of unmanaged) {
+    const path = join(status.root, agent.skillsDir, name);
+    const kind = isSymlink(path)
+      ? `link → ${readlinkSync(path)}`
+      : isDirectory(path)
+        ? 'directory'
+        : 'file';
+    console.log(`    ${pc.dim('·')} ${agent.skillsDir}/${name} ${pc.dim(`(${kind})`)}`);
+  }
+}
+
+function cmdCheck(args: ParsedArgs, ctx: Context): void {
+  if (!checkSource(ctx)) process.exit(1);
+
+  const status = collectStatus(args, ctx);
+  const result = checkStatus(status.agents);
+
+  if (args.report) {
+    const format = args.reportFormat ?? inferReportFormat(args.report);
+    const file = resolve(process.cwd(), args.report);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, formatReport(result, format, VERSION));
+  }
+
+  if (jsonOutput) {
+    printJson({
+      command: 'check',
+      scope: status.scope,
+      root: status.root,
+      source: status.source,
+      ok: result.exitCode === 0,
+      exitCode: result.exitCode,
+      problems: result.problems,
+    });
+    process.exit(result.exitCode);
+  }
+
+  for (const agent of status.agents) {
+    const problems = result.problems.filter((p) => p.agent === agent.agent);
+    const ok = agent.linked.length + agent.copied.length + agent.generated.length;
+    if (ok + problems.length === 0) continue;
+
+    const indicator = problems.length === 0 ? pc.green('✓') : pc.red('✗');
+    const counts = [pc.green(`${ok} ok`)];
+    for (const kind of Object.keys(CHECK_EXIT_CODES) as ProblemKind[]) {
+      const n = problems.filter((p) => p.kind === kind).length;
+      if (n > 0) counts.push(pc.red(`${n} ${kind}`));
+    }
+
+    console.log(
+      `  ${indicator} ${pc.bold(agent.agent)} ${pc.dim(`(${agent.skillsDir})`)}  ${counts.join(', ')}`,
+    );
+    for (const problem of problems) {
+      console.log(`      ${pc.dim('·')} ${problem.skill} ${pc.dim(`— ${problem.message}`)}`);
+    }
+  }
+
+  if (args.report) {
+    console.log();
+    console.log(`  ${pc.dim(`Report → ${args.report}`)}`);
+  }
+
+  if (result.exitCode !== 0) {
+    console.log();
+    // Sync leaves hand-edited copies alone unless forced
+    const modified = status.agents.reduce((n, agent) => n + agent.modified.length, 0);
+    const fixable = result.problems.filter((p) => p.kind !== 'unmanaged').length - modified;
+    log.error(
+      `${result.problems.length} problem${result.problems.length === 1 ? '' : 's'} found.` +
+        (fixable > 0 ? ` Run ${pc.bold('skillink sync')} to fix links.` : '') +
+        (modified > 0
+          ? ` Run ${pc.bold('skillink sync --force')} to overwrite modified copies.`
+          : ''),
+    );
+    console.log();
+    process.exit(result.exitCode);
+  }
+}
+
+function cmdValidate(ctx: Context): void {
+  const { root, config } = ctx;
+  if (!checkSource(ctx)) process.exit(1);
+
+  // Skills overridden by a higher layer are never synced, so they aren't checked
+  const skills = loadLayeredSkills(root, contextSources(ctx)).map((s) => s.skill);
+  const issues = skills.flatMap((s) => s.issues);
+  const errors = issues.filter((i) => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  if (jsonOutput) {
+    printJson({
+      command: 'validate',
+      source: config.source,
+      valid: errors === 0,
+      skills: skills.map((s) => ({
+        name: s.dirName,
+        file: s.file,
+        valid: isValidSkill(s),
+        frontmatter: s.frontmatter,
+        issues: s.issues,
+      })),
+    });
+    if (errors > 0) process.exit(1);
+    return;
+  }
+
+  for (const skill of skills) {
+    const indicator =
+      skill.issues.length === 0
+        ? pc.green('✓')
+        : isValidSkill(skill)
+          ? pc.yellow('!')
+          : pc.red('✗');
+    console.log(`  ${indicator} ${skill.dirName}`);
+
+    for (const issue of skill.issues) {
+      const location = `${relative(root, issue.file)}${issue.line ? `:${issue.line}` : ''}`;
+      const message =
+        issue.severity === 'error' ? pc.red(issue.message) : pc.yellow(issue.message);
+      console.log(`    ${pc.dim(location)}  ${message}`);
+    }
+  }
+
+  console.log();
+  const parts = [pc.green(`${skills.length} checked`)];
+  if (errors > 0) parts.push(pc.red(`${errors} errors`));
+  if (warnings > 0) parts.push(pc.yellow(`${warnings} warnings`));
+  console.log(`  ${parts.join(', ')}`);
+
+  if (errors > 0) {
+    console.log();
+    process.exit(1);
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatViolation(v: StatsViolation): string {
+  const unit = v.limit === 'maxSkillBytes' ? 'bytes' : 'tokens';
+  const format = (n: number) => `${n} ${unit}`;
+  return `${v.skill ?? 'total'}: ${v.limit} is ${format(v.max)}, found ${format(v.value)}`;
+}
+
+function cmdStats(ctx: Context): void {
+  const { root, config } = ctx;
+  if (!checkSource(ctx)) process.exit(1);
+
+  const report = collectStats(root, contextSources(ctx), config.stats);
+  const ok = report.violations.length === 0;
+
+  if (jsonOutput) {
+    printJson({
+      command: 'stats',
+      source: config.source,
+      layers: config.layers,
+      ok,
+      thresholds: config.stats,
+      ...report,
+    });
+    if (!ok) process.exit(1);
+    return;
+  }
+
+  const width = Math.max(...report.skills.map((s) => s.skill.length), 5);
+  const over = new Set(report.violations.map((v) => v.skill));
+  for (const s of report.skills) {
+    const indicator = over.has(s.skill) ? pc.red('✗') : pc.green('✓');
+    const files = `${s.files} file${s.files === 1 ? '' : 's'}`;
+    console.log(
+      `  ${indicator} ${s.skill.padEnd(width)}  ${files.padStart(8)}  ${formatBytes(s.bytes).padStart(9)}  ` +
+        pc.dim(`~${s.descriptionTokens} description + ${s.bodyTokens} body tokens`),
+    );
+    for (const file of s.largest) {
+      console.log(`      ${pc.dim(`${file.path} (${formatBytes(file.bytes)})`)}`);
+    }
+  }
+
+  const { total } = report;
+  console.log();
+  console.log(
+    `  ${pc.bold('Total')}  ${total.skills} skills, ${total.files} files, ${formatBytes(total.bytes)}, ` +
+      `~${total.descriptionTokens} description + ${total.bodyTokens} body tokens`,
+  );
+
+  if (!ok) {
+    console.log();
+    for (const violation of report.violations) {
+      console.log(`  ${pc.red('✗')} ${formatViolation(violation)}`);
+    }
+    console.log();
+    log.error(
+      `${report.violations.length} threshold${report.violations.length === 1 ? '' : 's'} exceeded.`,
+    );
+    console.log();
+    process.exit(1);
+  }
+}
+
+function cmdDoctor(args: ParsedArgs, ctx: Context): void {
+  const options = buildSyncOptions(ctx, inspectedAgents(args, ctx), args);
+  const findings = diagnose(ctx.root, options);
+  const fixed = args.fix && !args.dryRun ? applyFixes(ctx.root, findings) : [];
+  const remaining = findings.filter((f) => !fixed.includes(f));
+  const errors = remaining.filter((f) => f.severity === 'error').length;
+
+  if (jsonOutput) {
+    printJson({
+      command: 'doctor',
+      root: ctx.root,
+      ok: errors === 0,
+      dryRun: args.dryRun,
+      findings: remaining,
+      fixed,
+    });
+    if (errors > 0) process.exit(1);
+    return;
+  }
+
+  if (findings.length === 0) {
+    console.log(`  ${pc.green('✓')} No problems found`);
+    return;
+  }
+
+  const location = (f: Finding) => (f.agent ? `${f.agent}: ${f.path}` : f.path);
+  for (const finding of findings) {
+    const done = fixed.includes(finding);
+    const indicator = done
+      ? pc.green('✓')
+      : finding.severity === 'error'
+        ? pc.red('✗')
+        : pc.yellow('!');
+    console.log(`  ${indicator} ${location(finding)} ${pc.dim(`[${finding.kind}]`)}`);
+    console.log(`      ${finding.message}`);
+    const fix = done ? `Fixed: ${finding.fix}` : `Fix: ${finding.fix}`;
+    console.log(`      ${pc.dim(fix)}${finding.fixable && !done ? pc.dim(' (--fix)') : ''}`);
+  }
+
+  console.log();
+  const warnings = remaining.length - errors;
+  const parts: string[] = [];
+  if (fixed.length > 0) parts.push(pc.green(`${fixed.length} fixed`));
+  if (errors > 0) parts.push(pc.red(`${errors} errors`));
+  if (warnings > 0) parts.push(pc.yellow(`${warnings} warnings`));
+  console.log(`  ${parts.join(', ')}`);
+
+  if (errors > 0) {
+    console.log();
+    process.exit(1);
+  }
+}
+
+function cmdHooks(args: ParsedArgs, ctx: Context): void {
+  const action = args.positionals[0] ?? 'status';
+  if (ctx.scope !== 'project') {
+    throw new Error('hooks are only supported in the project scope');
+  }
+
+  if (action === 'status') {
+    const installed = installedHooks(ctx.root);
+    if (jsonOutput) {
+      printJson({ command: 'hooks', action, installed });
+      return;
+    }
+    for (const hook of HOOK_NAMES) {
+      const ok = installed.includes(hook);
+      const indicator = ok ? pc.green('✓') : pc.dim('○');
+      console.log(`  ${indicator} ${hook}${ok ? '' : pc.dim(' (not installed)')}`);
+    }
+    return;
+  }
+
+  if (action !== 'install' && action !== 'uninstall') {
+    log.error(`Usage: ${pc.bold('skillink hooks [install|uninstall]')}`);
+    process.exit(1);
+  }
+
+  const run = action === 'install' ? installHooks : uninstallHooks;
+  // Without configured agents, hooks sync only to the agents found on this machine
+  const changes = run(ctx.root, {
+    dryRun: args.dryRun,
+    detected: ctx.config.defaultAgents.length === 0,
+  });
+
+  if (jsonOutput) {
+    printJson({ command: 'hooks', action, dryRun: args.dryRun, hooks: changes });
+    return;
+  }
+
+  if (args.dryRun) {
+    console.log(pc.yellow('  Dry run — no changes will be made\n'));
+  }
+
+  const describe: Record<HookChange['action'], string> = {
+    created: 'created',
+    added: 'added to existing hook',
+    updated: 'updated',
+    removed: 'removed, rest of hook kept',
+    deleted: 'deleted',
+    unchanged: action === 'install' ? 'already installed' : 'not installed',
+    skipped: 'not a shell script, skipped',
+  };
+  for (const change of changes) {
+    const indicator =
+      change.action === 'skipped'
+        ? pc.yellow('!')
+        : change.action === 'unchanged'
+          ? pc.dim('○')
+          : pc.green('✓');
+    console.log(
+      `  ${indicator} ${change.hook} ${pc.dim(`(${describe[change.action]})`)} ${pc.dim(relative(ctx.root, change.path))}`,
+    );
+  }
+  if (changes.some((change) => change.action === 'skipped')) {
+    log.warn('Call "skillink sync --yes" from the skipped hooks yourself to sync after checkout');
+  }
+}
+
+/** "2 linked, 1 removed" */
+function summarizeRun(run: JournalRun): string {
+  const labels: Partial<Record<JournalChange['type'], string>> = {
+    link: 'linked',
+    unlink: 'unlinked',
+    write: 'written',
+    remove: 'removed',
+  };
+  const counts = new Map<string, number>();
+  for (const change of run.changes) {
+    const label = labels[change.type];
+    if (label) counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  const parts = [...counts].map(([label, n]) => `${n} ${label}`);
+  return parts.length > 0 ? parts.join(', ') : 'copy manifest only';
+}
+
+function cmdHistory(ctx: Context): void {
+  const runs = [...readJournal(ctx.root).runs].reverse();
+
+  if (jsonOutput) {
+    printJson({ command: 'history', root: ctx.root, runs });
+    return;
+  }
+
+  if (runs.length === 0) {
+    log.info('No journaled runs.');
+    return;
+  }
+
+  const width = Math.max(...runs.map((r) => r.command.length));
+  for (const run of runs) {
+    console.log(
+      `  ${pc.dim(`#${run.id}`.padEnd(4))} ${new Date(run.at).toLocaleString()}  ` +
+        `${pc.bold(run.command.padEnd(width))}  ${pc.dim(summarizeRun(run))}`,
+    );
+  }
+  console.log();
+  console.log(pc.dim(`  Run ${pc.bold('skillink undo')} to reverse #${runs[0].id}.`));
+}
+
+function cmdUndo(args: ParsedArgs, ctx: Context): void {
+  const run = undoLastRun(ctx.root, { dryRun: args.dryRun });
+
+  if (jsonOutput) {
+    printJson({ command: 'undo', root: ctx.root, dryRun: args.dryRun, run });
+    return;
+  }
+
+  if (!run) {
+    log.info('Nothing to undo.');
+    return;
+  }
+
+  if (args.dryRun) {
+    console.log(pc.yellow('  Dry run — no changes will be made\n'));
+  }
+
+  for (const change of [...run.changes].reverse()) {
+    if (change.type === 'mkdir') continue;
+    const restored =
+      change.type === 'unlink' ||
+      change.type === 'remove' ||
+      (change.type === 'write' && !!change.backup);
+    const indicator = restored ? pc.green('✓') : pc.yellow('−');
+    const target = change.type === 'unlink' ? ` ${pc.dim('→')} ${change.target}` : '';
+    const link = change.type === 'link' || change.type === 'unlink' ? 'link ' : '';
     console.log(
-      `  ${indicator} ${pc.bold(status.agent)} ${pc.dim(`(${status.skillsDir})`)}`,
+      `  ${indicator} ${change.path}${target} ${pc.dim(`(${link}${restored ? 'restored' : 'removed'})`)}`,
     );
+  }
+
+  console.log();
+  const action = args.dryRun ? 'Would undo' : 'Undid';
+  log.success(`${action} ${pc.bold(run.command)} #${run.id} from ${new Date(run.at).toLocaleString()}`);
+}
+
+function cmdLock(args: ParsedArgs, ctx: Context): void {
+  const { root } = ctx;
+  if (!checkSource(ctx)) process.exit(1);
+
+  const lock = buildLock(root, contextSources(ctx));
+
+  if (!args.dryRun) {
+    writeLock(root, lock);
+  }
+
+  if (jsonOutput) {
+    printJson({ command: 'lock', lockfile: LOCK_FILE, dryRun: args.dryRun, skills: lock.skills });
+    return;
+  }
+
+  for (const [name, entry] of Object.entries(lock.skills)) {
+    const origin = entry.origin.type === 'local' ? 'local' : entry.origin.location;
     console.log(
-      `    ${pc.green(`${status.linked.length} linked`)}${status.unlinked.length > 0 ? `, ${pc.yellow(`${status.unlinked.length} unlinked`)}` : ''}${status.wrong.length > 0 ? `, ${pc.red(`${status.wrong.length} wrong`)}` : ''}`,
+      `  ${pc.green('✓')} ${name} ${pc.dim(`${entry.hash.slice(0, 19)}… (${origin})`)}`,
     );
   }
+
+  console.log();
+  console.log(
+    `  ${pc.green(`${Object.keys(lock.skills).length} locked`)} ${pc.dim(`→ ${LOCK_FILE}`)}`,
+  );
 }
 
-function cmdAgents(): void {
-  const targets = getTargetAgents();
+function cmdVerify(ctx: Context): void {
+  const { root } = ctx;
+  if (!checkSource(ctx)) process.exit(1);
+
+  const result = verifyLock(root, contextSources(ctx));
+  const problems = result.added.length + result.removed.length + result.changed.length;
+
+  if (jsonOutput) {
+    printJson({ command: 'verify', lockfile: LOCK_FILE, ok: problems === 0, ...result });
+    if (problems > 0) process.exit(1);
+    return;
+  }
 
-  console.log(`  ${pc.bold('Source')}  .agents/skills/`);
+  for (const name of result.added) {
+    console.log(`  ${pc.yellow('+')} ${name} ${pc.dim('(not in lockfile)')}`);
+  }
+  for (const name of result.removed) {
+    console.log(`  ${pc.red('−')} ${name} ${pc.dim('(locked but missing)')}`);
+  }
+  for (const name of result.changed) {
+    console.log(`  ${pc.red('✗')} ${name} ${pc.dim('(content changed)')}`);
+  }
+
+  if (problems === 0) {
+    console.log(`  ${pc.green('✓')} All skills match ${LOCK_FILE}`);
+    return;
+  }
+
+  console.log();
+  log.error(
+    `${problems} skill${problems === 1 ? '' : 's'} out of date. Review and run ${pc.bold('skillink lock')}.`,
+  );
+  console.log();
+  process.exit(1);
+}
+
+function cmdAgents(ctx: Context): void {
+  const { agents } = ctx.config;
+  const targets = getTargetAgents(agents);
+  const detected = detectedAgents(ctx);
+
+  if (jsonOutput) {
+    printJson({
+      command: 'agents',
+      source: ctx.config.source,
+      layers: ctx.config.layers,
+      agents: targets.map((name) => ({ ...agents[name], detected: detected[name] ?? [] })),
+    });
+    return;
+  }
+
+  console.log(`  ${pc.bold('Source')}  ${contextSources(ctx).map((s) => `${s}/`).join(' → ')}`);
   console.log();
   console.log(`  ${pc.bold('Targets')}`);
   for (const name of targets) {
+    const global = agents[name].globalSkillsDir;
+    const format = agents[name].mode === 'transform' ? ` (${agents[name].format} rules)` : '';
+    const bullet = detected[name] ? pc.green('●') : pc.dim('·');
     console.log(
-      `    ${pc.dim('·')} ${agents[name].displayName} ${pc.dim(`→ ${agents[name].skillsDir}`)}`,
+      `    ${bullet} ${agents[name].displayName} ${pc.dim(`→ ${agents[name].skillsDir}${format}`)}${global ? pc.dim(` · ~/${global}`) : ''}`,
     );
+
+    const markers = (ctx.scope === 'global' ? agents[name].globalDetect : agents[name].detect) ?? [];
+    if (detected[name]) {
+      console.log(`      ${pc.green(`detected: ${detected[name].join(', ')}`)}`);
+    } else if (markers.length > 0) {
+      console.log(`      ${pc.dim(`not detected (looks for ${markers.join(', ')})`)}`);
+    }
   }
 }
 
@@ -279,34 +2021,91 @@ async function main(): Promise<void> {
     return;
   }
 
-  console.log();
+  jsonOutput = args.json;
+
+  if (args.scope === 'all' && args.command !== 'status' && args.command !== 'st') {
+    throw new Error('--scope all is only supported by status');
+  }
+  const ctx = createContext(args.scope === 'global' ? 'global' : 'project', args);
+
+  if (!jsonOutput) console.log();
 
   switch (args.command) {
     case 'sync':
-      await cmdSync(args);
+      await cmdSync(args, ctx);
+      break;
+    case 'import':
+      await cmdImport(args, ctx);
       break;
     case 'clean':
     case 'rm':
+      await cmdClean(args, ctx);
+      break;
+    case 'new':
+      await cmdNew(args, ctx);
+      break;
+    case 'add':
+      await cmdAdd(args, ctx);
+      break;
     case 'remove':
-      await cmdClean(args);
+      await cmdRemove(args, ctx);
       break;
     case 'status':
     case 'st':
       cmdStatus(args);
       break;
+    case 'check':
+      cmdCheck(args, ctx);
+      break;
+    case 'validate':
+      cmdValidate(ctx);
+      break;
+    case 'stats':
+      cmdStats(ctx);
+      break;
+    case 'doctor':
+      cmdDoctor(args, ctx);
+      break;
+    case 'watch':
+      await cmdWatch(args, ctx);
+      break;
+    case 'hooks':
+      cmdHooks(args, ctx);
+      break;
+    case 'undo':
+      cmdUndo(args, ctx);
+      break;
+    case 'history':
+      cmdHistory(ctx);
+      break;
+    case 'lock':
+      cmdLock(args, ctx);
+      break;
+    case 'verify':
+      cmdVerify(ctx);
+      break;
     case 'agents':
-      cmdAgents();
+      cmdAgents(ctx);
       break;
     default:
+      if (jsonOutput) {
+        printJson({ error: `Unknown command: ${args.command}` });
+        process.exit(1);
+      }
       console.log(pc.red(`  Unknown command: ${args.command}`));
       console.log(pc.dim('  Run "skillink help" for usage.'));
       process.exit(1);
   }
 
-  console.log();
+  if (!jsonOutput) console.log();
 }
 
 main().catch((e) => {
-  console.error(pc.red(`Error: ${e instanceof Error ? e.message : e}`));
+  const message = e instanceof Error ? e.message : String(e);
+  if (jsonOutput) {
+    printJson({ error: message });
+  } else {
+    console.error(pc.red(`Error: ${message}`));
+  }
   process.exit(1);
 });
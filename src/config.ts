@@ -0,0 +1,270 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { agents as builtinAgents } from './agents.ts';
+import { isRuleFormat, RULE_FORMATS } from './transform.ts';
+import type {
+  AgentConfig,
+  DistributionMode,
+  FlattenScheme,
+  SkillTargeting,
+  StatsThresholds,
+  WorkspaceMode,
+} from './types.ts';
+
+export const DEFAULT_SOURCE = '.agents/skills';
+export const CONFIG_FILE = 'skillink.config.json';
+
+const STATS_THRESHOLDS: string[] = [
+  'maxDescriptionTokens',
+  'maxBodyTokens',
+  'maxSkillBytes',
+  'maxTotalDescriptionTokens',
+] satisfies (keyof StatsThresholds)[];
+
+/**
+ * Project config as written by the user, either in skillink.config.json
+ * or under the "skillink" key of package.json.
+ */
+export interface SkillinkConfig {
+  /**
+   * Canonical skill source (relative to project root), or a list of sources
+   * from lowest to highest precedence; new skills go to the last one
+   */
+  source?: string | string[];
+  /** Default agents for sync/clean/status when --agent is not given */
+  agents?: string[];
+  /** Default distribution mode for all agents ("transform" is per agent only) */
+  mode?: DistributionMode;
+  /** Extra agent definitions, merged over the built-in registry */
+  customAgents?: Record<string, Partial<AgentConfig>>;
+  /** Per-skill agent targeting, overriding SKILL.md frontmatter */
+  skills?: Record<string, SkillTargeting>;
+  /** Sync workspace packages too (package.json workspaces or pnpm-workspace.yaml) */
+  workspaces?: WorkspaceMode;
+  /** Agent dir names of nested skills: "category" (default) or "leaf" */
+  flatten?: FlattenScheme;
+  /** Size limits that make "skillink stats" fail */
+  stats?: StatsThresholds;
+}
+
+/** Config after defaults and the built-in agent registry are applied */
+export interface ResolvedConfig {
+  /** Highest-precedence source, where new skills are written */
+  source: string;
+  /** Lower-precedence sources, lowest first */
+  layers: string[];
+  defaultAgents: string[];
+  mode?: DistributionMode;
+  agents: Record<string, AgentConfig>;
+  /** Agents defined or overridden under "customAgents" */
+  customAgents: string[];
+  skills: Record<string, SkillTargeting>;
+  workspaces?: WorkspaceMode;
+  flatten: FlattenScheme;
+  stats: StatsThresholds;
+  /** File the config was read from, if any */
+  path?: string;
+}
+
+/** Read the raw project config, preferring skillink.config.json over package.json */
+function readRawConfig(root: string): { config: unknown; path?: string } {
+  const configPath = join(root, CONFIG_FILE);
+  if (existsSync(configPath)) {
+    return { config: parseJson(configPath), path: configPath };
+  }
+
+  const pkgPath = join(root, 'package.json');
+  if (existsSync(pkgPath)) {
+    const pkg = parseJson(pkgPath);
+    if (pkg && typeof pkg === 'object' && 'skillink' in pkg) {
+      return { config: pkg.skillink, path: pkgPath };
+    }
+  }
+
+  return { config: {} };
+}
+
+function parseJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (e) {
+    throw new Error(
+      `Failed to parse ${path}: ${e instanceof Error ? e.message : e}`,
+    );
+  }
+}
+
+function validateConfig(config: unknown, path: string): SkillinkConfig {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Invalid skillink config in ${path}: expected an object`);
+  }
+
+  const c = config as Record<string, unknown>;
+
+  if (
+    c.source !== undefined &&
+    typeof c.source !== 'string' &&
+    (!Array.isArray(c.source) ||
+      c.source.length === 0 ||
+      c.source.some((s) => typeof s !== 'string'))
+  ) {
+    throw new Error(
+      `Invalid skillink config in ${path}: "source" must be a string or a non-empty array of strings`,
+    );
+  }
+
+  if (
+    c.agents !== undefined &&
+    (!Array.isArray(c.agents) || c.agents.some((a) => typeof a !== 'string'))
+  ) {
+    throw new Error(
+      `Invalid skillink config in ${path}: "agents" must be an array of agent names`,
+    );
+  }
+
+  if (c.mode !== undefined && c.mode !== 'symlink' && c.mode !== 'copy') {
+    throw new Error(
+      `Invalid skillink config in ${path}: "mode" must be "symlink" or "copy"`,
+    );
+  }
+
+  if (c.workspaces !== undefined && c.workspaces !== 'packages' && c.workspaces !== 'root') {
+    throw new Error(
+      `Invalid skillink config in ${path}: "workspaces" must be "packages" or "root"`,
+    );
+  }
+
+  if (c.flatten !== undefined && c.flatten !== 'category' && c.flatten !== 'leaf') {
+    throw new Error(
+      `Invalid skillink config in ${path}: "flatten" must be "category" or "leaf"`,
+    );
+  }
+
+  if (c.customAgents !== undefined) {
+    if (typeof c.customAgents !== 'object' || Array.isArray(c.customAgents)) {
+      throw new Error(
+        `Invalid skillink config in ${path}: "customAgents" must be an object`,
+      );
+    }
+    for (const [name, agent] of Object.entries(c.customAgents as object)) {
+      // Built-in agents may be overridden without repeating their skillsDir
+      if (!agent || (!builtinAgents[name] && typeof agent.skillsDir !== 'string')) {
+        throw new Error(
+          `Invalid skillink config in ${path}: agent "${name}" needs a "skillsDir"`,
+        );
+      }
+      if (
+        agent.mode !== undefined &&
+        agent.mode !== 'symlink' &&
+        agent.mode !== 'copy' &&
+        agent.mode !== 'transform'
+      ) {
+        throw new Error(
+          `Invalid skillink config in ${path}: agent "${name}" has an invalid "mode"`,
+        );
+      }
+      if (agent.format !== undefined && !isRuleFormat(agent.format)) {
+        throw new Error(
+          `Invalid skillink config in ${path}: agent "${name}" has an invalid "format" (expected ${Object.keys(RULE_FORMATS).join(', ')})`,
+        );
+      }
+      for (const key of ['detect', 'globalDetect']) {
+        const value = agent[key];
+        if (
+          value !== undefined &&
+          (!Array.isArray(value) || value.some((m: unknown) => typeof m !== 'string'))
+        ) {
+          throw new Error(
+            `Invalid skillink config in ${path}: agent "${name}" has an invalid "${key}" (expected a list of paths)`,
+          );
+        }
+      }
+      if (agent.mode === 'transform' && !agent.format && !builtinAgents[name]?.format) {
+        throw new Error(
+          `Invalid skillink config in ${path}: agent "${name}" uses mode "transform" but has no "format"`,
+        );
+      }
+    }
+  }
+
+  if (c.skills !== undefined) {
+    if (typeof c.skills !== 'object' || Array.isArray(c.skills)) {
+      throw new Error(`Invalid skillink config in ${path}: "skills" must be an object`);
+    }
+    for (const [name, targeting] of Object.entries(c.skills as object)) {
+      for (const key of ['agents', 'excludeAgents']) {
+        const value = targeting?.[key];
+        if (
+          value !== undefined &&
+          (!Array.isArray(value) || value.some((a: unknown) => typeof a !== 'string'))
+        ) {
+          throw new Error(
+            `Invalid skillink config in ${path}: skills.${name}.${key} must be an array of agent names`,
+          );
+        }
+      }
+    }
+  }
+
+  if (c.stats !== undefined) {
+    if (!c.stats || typeof c.stats !== 'object' || Array.isArray(c.stats)) {
+      throw new Error(`Invalid skillink config in ${path}: "stats" must be an object`);
+    }
+    for (const [key, value] of Object.entries(c.stats)) {
+      if (!STATS_THRESHOLDS.includes(key)) {
+        throw new Error(
+          `Invalid skillink config in ${path}: unknown threshold stats.${key} (expected ${STATS_THRESHOLDS.join(', ')})`,
+        );
+      }
+      if (typeof value !== 'number' || !(value >= 0)) {
+        throw new Error(
+          `Invalid skillink config in ${path}: stats.${key} must be a non-negative number`,
+        );
+      }
+    }
+  }
+
+  return c as SkillinkConfig;
+}
+
+/** Home directory for the global scope; HOME wins so it can be overridden */
+export function getHomeDir(): string {
+  return process.env.HOME || homedir();
+}
+
+/**
+ * Load the project config and merge it with the built-in defaults.
+ * Custom agents override built-in agents of the same name.
+ */
+export function loadConfig(root: string): ResolvedConfig {
+  const { config: raw, path } = readRawConfig(root);
+  const config: SkillinkConfig = path ? validateConfig(raw, path) : {};
+
+  const agents: Record<string, AgentConfig> = { ...builtinAgents };
+  for (const [name, agent] of Object.entries(config.customAgents ?? {})) {
+    agents[name] = {
+      ...agents[name],
+      ...agent,
+      name,
+      displayName: agent.displayName ?? agents[name]?.displayName ?? name,
+      skillsDir: agent.skillsDir ?? agents[name].skillsDir,
+    };
+  }
+
+  const sources = Array.isArray(config.source) ? config.source : [config.source ?? DEFAULT_SOURCE];
+
+  return {
+    source: sources[sources.length - 1],
+    layers: sources.slice(0, -1),
+    defaultAgents: config.agents ?? [],
+    mode: config.mode,
+    agents,
+    customAgents: Object.keys(config.customAgents ?? {}),
+    skills: config.skills ?? {},
+    workspaces: config.workspaces,
+    flatten: config.flatten ?? 'category',
+    stats: config.stats ?? {},
+    path,
+  };
+}
@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+import {
+  cpSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  readlinkSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { dirname, join, relative } from 'path';
+
+/** Copy manifest, relative to project root */
+export const MANIFEST_FILE = '.agents/skillink-manifest.json';
+
+export interface CopyRecord {
+  skill: string;
+  agent: string;
+  /** Skill source the copy was made from (missing in older manifests) */
+  source?: string;
+  /** Tree hash of the source at the time it was copied */
+  hash: string;
+}
+
+export interface CopyManifest {
+  version: 1;
+  /** Keyed by copy path relative to project root */
+  copies: Record<string, CopyRecord>;
+}
+
+export type CopyState = 'up-to-date' | 'stale' | 'modified';
+
+/**
+ * Hash a directory tree: relative paths and file contents, in sorted order.
+ * Nested symlinks are hashed by their target, not followed.
+ */
+export function hashTree(dir: string): string {
+  const hash = createHash('sha256');
+
+  const walk = (current: string) => {
+    const entries = readdirSync(current, { withFileTypes: true }).sort((a, b) =>
+      a.name < b.name ? -1 : a.name > b.name ? 1 : 0,
+    );
+    for (const entry of entries) {
+      const path = join(current, entry.name);
+      const rel = relative(dir, path).split('\\').join('/');
+      if (entry.isSymbolicLink()) {
+        hash.update(`link\0${rel}\0${readlinkSync(path)}\0`);
+      } else if (entry.isDirectory()) {
+        hash.update(`dir\0${rel}\0`);
+        walk(path);
+      } else if (entry.isFile()) {
+        hash.update(`file\0${rel}\0`);
+        hash.update(readFileSync(path));
+        hash.update('\0');
+      }
+    }
+  };
+
+  walk(dir);
+  return `sha256-${hash.digest('hex')}`;
+}
+
+/** Replace dest with a fresh copy of src */
+export function copyTree(src: string, dest: string): void {
+  rmSync(dest, { recursive: true, force: true });
+  mkdirSync(dirname(dest), { recursive: true });
+  cpSync(src, dest, { recursive: true });
+}
+
+/** Compare a copy against its source and the hash recorded when it was made */
+export function getCopyState(
+  record: CopyRecord,
+  source: string,
+  copy: string,
+): CopyState {
+  if (hashTree(copy) !== record.hash) return 'modified';
+  if (!existsSync(source) || hashTree(source) !== record.hash) return 'stale';
+  return 'up-to-date';
+}
+
+export function readManifest(root: string): CopyManifest {
+  const path = join(root, MANIFEST_FILE);
+  if (!existsSync(path)) {
+    return { version: 1, copies: {} };
+  }
+
+  try {
+    const manifest = JSON.parse(readFileSync(path, 'utf-8'));
+    return { version: 1, copies: manifest.copies ?? {} };
+  } catch (e) {
+    throw new Error(
+      `Failed to parse ${MANIFEST_FILE}: ${e instanceof Error ? e.message : e}`,
+    );
+  }
+}
+
+export function writeManifest(root: string, manifest: CopyManifest): void {
+  const path = join(root, MANIFEST_FILE);
+
+  if (Object.keys(manifest.copies).length === 0) {
+    if (existsSync(path)) rmSync(path);
+    return;
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/** Key used for a copy in the manifest */
+export function manifestKey(root: string, target: string): string {
+  return relative(root, target).split('\\').join('/');
+}
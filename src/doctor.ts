@@ -0,0 +1,290 @@
+import { execFileSync } from 'child_process';
+import {
+  accessSync,
+  constants,
+  existsSync,
+  readdirSync,
+  readlinkSync,
+  symlinkSync,
+  unlinkSync,
+} from 'fs';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { manifestKey, readManifest } from './copy.ts';
+import { isIgnored, readIgnore } from './ignore.ts';
+import { flattenName, SKILL_FILE } from './skills.ts';
+import { isDirectory, isSymlink, pointsInto, sourceLayers, type SyncOptions } from './sync.ts';
+import { generatedSkill } from './transform.ts';
+
+export type DiagnosisKind =
+  | 'dangling'
+  | 'outside-root'
+  | 'absolute'
+  | 'symlinked-dir'
+  | 'case-clash'
+  | 'unreadable'
+  | 'git-tracked'
+  | 'missing-skill-file';
+
+export interface Finding {
+  kind: DiagnosisKind;
+  severity: 'error' | 'warning';
+  /** Agent the finding is about; absent for source problems */
+  agent?: string;
+  /** Path relative to the root */
+  path: string;
+  message: string;
+  /** What to do about it */
+  fix: string;
+  /** Whether `--fix` can apply the fix safely */
+  fixable: boolean;
+}
+
+/**
+ * Look for problems that keep skills from showing up in agents: broken or
+ * non-portable links, odd agent dirs, name clashes on case-insensitive file
+ * systems, unreadable or incomplete sources, and generated entries committed
+ * to git.
+ */
+export function diagnose(root: string, options: SyncOptions): Finding[] {
+  const sources = sourceLayers(options);
+  const findings: Finding[] = [];
+  const rel = (path: string) => relative(root, path).split(sep).join('/') || '.';
+
+  const skills: string[] = [];
+  for (const source of sources) {
+    const scanned = scanSource(root, source);
+    skills.push(...scanned.skills);
+    findings.push(...scanned.findings);
+  }
+
+  const manifest = readManifest(root);
+  const names = [...new Set(skills)].map((id) => flattenName(id, options.flatten));
+  findings.push(...caseClashes(names, (group) => ({
+    kind: 'case-clash',
+    severity: 'warning',
+    path: sources[sources.length - 1],
+    message: `Skills ${group.join(', ')} differ only in case and clash on macOS and Windows`,
+    fix: 'Rename all but one of them',
+    fixable: false,
+  })));
+
+  for (const [agent, config] of Object.entries(options.agents)) {
+    const skillsDir = join(root, config.skillsDir);
+
+    if (isSymlink(skillsDir)) {
+      findings.push({
+        kind: 'symlinked-dir',
+        severity: 'warning',
+        agent,
+        path: config.skillsDir,
+        message: `${config.skillsDir} is itself a symlink (to ${readlinkSync(skillsDir)}), so links inside it resolve from its target`,
+        fix: `Replace ${config.skillsDir} with a real directory and run "skillink sync"`,
+        fixable: false,
+      });
+    }
+    if (!isDirectory(skillsDir)) continue;
+
+    const entries = readdirSync(skillsDir);
+    findings.push(...caseClashes(entries, (group) => ({
+      kind: 'case-clash',
+      severity: 'warning',
+      agent,
+      path: config.skillsDir,
+      message: `Entries ${group.join(', ')} differ only in case and clash on macOS and Windows`,
+      fix: 'Remove or rename all but one of them',
+      fixable: false,
+    })));
+
+    for (const name of entries) {
+      const path = join(skillsDir, name);
+      if (!isSymlink(path)) continue;
+
+      const target = readlinkSync(path);
+      const resolved = resolve(dirname(path), target);
+      const owned = sources.some((s) => pointsInto(path, join(root, s)));
+
+      if (!existsSync(path)) {
+        findings.push({
+          kind: 'dangling',
+          severity: 'error',
+          agent,
+          path: rel(path),
+          message: `Link to ${target} points to nothing`,
+          fix: owned ? 'Remove the link' : 'Remove the link or restore its target',
+          fixable: owned,
+        });
+        continue;
+      }
+
+      if (resolved !== root && !resolved.startsWith(root + sep)) {
+        findings.push({
+          kind: 'outside-root',
+          severity: 'warning',
+          agent,
+          path: rel(path),
+          message: `Link leaves the project (${target}) and won't exist on other checkouts`,
+          fix: 'Move the skill into the source, or vendor it as a source layer',
+          fixable: false,
+        });
+      } else if (isAbsolute(target)) {
+        findings.push({
+          kind: 'absolute',
+          severity: 'warning',
+          agent,
+          path: rel(path),
+          message: `Link uses an absolute path (${target}) that breaks on other machines`,
+          fix: `Relink as ${relative(dirname(path), resolved)}`,
+          fixable: true,
+        });
+      }
+    }
+  }
+
+  // Entries skillink creates can be rebuilt with "sync" and shouldn't be committed
+  const managed = (agentDir: string, name: string) => {
+    const path = join(root, agentDir, name);
+    return (
+      (isSymlink(path) && sources.some((s) => pointsInto(path, join(root, s)))) ||
+      !!manifest.copies[manifestKey(root, path)] ||
+      sources.some((s) => generatedSkill(path, s) !== null)
+    );
+  };
+  for (const [agent, config] of Object.entries(options.agents)) {
+    const tracked = gitTracked(root, config.skillsDir).filter((name) =>
+      managed(config.skillsDir, name),
+    );
+    if (tracked.length === 0) continue;
+
+    findings.push({
+      kind: 'git-tracked',
+      severity: 'warning',
+      agent,
+      path: config.skillsDir,
+      message: `${tracked.length} entr${tracked.length === 1 ? 'y' : 'ies'} made by skillink ${tracked.length === 1 ? 'is' : 'are'} committed to git (${tracked.join(', ')})`,
+      fix: `Add ${config.skillsDir}/ to .gitignore and run "git rm -r --cached ${config.skillsDir}"`,
+      fixable: false,
+    });
+  }
+
+  return findings;
+}
+
+/** Apply the safe fixes; returns the findings that were fixed */
+export function applyFixes(root: string, findings: Finding[]): Finding[] {
+  const fixed: Finding[] = [];
+
+  for (const finding of findings) {
+    if (!finding.fixable) continue;
+    const path = join(root, finding.path);
+
+    if (finding.kind === 'dangling') {
+      unlinkSync(path);
+      fixed.push(finding);
+    } else if (finding.kind === 'absolute') {
+      const target = relative(dirname(path), readlinkSync(path));
+      unlinkSync(path);
+      symlinkSync(target, path, 'dir');
+      fixed.push(finding);
+    }
+  }
+
+  return fixed;
+}
+
+/**
+ * Walk a source like discoverSkills, but report unreadable directories and
+ * skill directories without a SKILL.md instead of failing on them. Ignored
+ * directories are skipped.
+ */
+function scanSource(root: string, source: string): { skills: string[]; findings: Finding[] } {
+  const skills: string[] = [];
+  const findings: Finding[] = [];
+  if (!existsSync(join(root, source))) return { skills, findings };
+  const rules = canRead(join(root, source)) ? readIgnore(root, source) : [];
+
+  const walk = (rel: string): number => {
+    const path = rel ? `${source}/${rel}` : source;
+    if (!canRead(join(root, path))) {
+      findings.push(unreadable(path));
+      return 0;
+    }
+
+    let found = 0;
+    for (const entry of readdirSync(join(root, path), { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const id = rel ? `${rel}/${entry.name}` : entry.name;
+      if (isIgnored(rules, id)) continue;
+      if (existsSync(join(root, source, id, SKILL_FILE))) {
+        skills.push(id);
+        found++;
+        continue;
+      }
+      const nested = walk(id);
+      if (nested === 0 && !rel && canRead(join(root, source, id))) {
+        findings.push({
+          kind: 'missing-skill-file',
+          severity: 'error',
+          path: `${source}/${id}`,
+          message: `No ${SKILL_FILE}, so it is not linked to any agent`,
+          fix: `Add ${source}/${id}/${SKILL_FILE}, or move the directory out of ${source}`,
+          fixable: false,
+        });
+      }
+      found += nested;
+    }
+    return found;
+  };
+
+  walk('');
+  return { skills, findings };
+}
+
+function unreadable(path: string): Finding {
+  return {
+    kind: 'unreadable',
+    severity: 'error',
+    path,
+    message: 'Directory cannot be read',
+    fix: `Make it readable, e.g. "chmod u+rx ${path}"`,
+    fixable: false,
+  };
+}
+
+function canRead(dir: string): boolean {
+  try {
+    accessSync(dir, constants.R_OK | constants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Groups of names that only differ in case */
+function caseClashes(names: string[], toFinding: (group: string[]) => Finding): Finding[] {
+  const groups = new Map<string, string[]>();
+  for (const name of names) {
+    const key = name.toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), name]);
+  }
+  return [...groups.values()].filter((g) => g.length > 1).map(toFinding);
+}
+
+/** Names of entries directly in dir that git tracks; empty outside a git repo */
+function gitTracked(root: string, dir: string): string[] {
+  let output: string;
+  try {
+    output = execFileSync('git', ['ls-files', '-z', '--', dir], {
+      cwd: root,
+      stdio: 'pipe',
+    }).toString();
+  } catch {
+    return [];
+  }
+
+  const prefix = `${dir.split(sep).join('/').replace(/\/+$/, '')}/`;
+  const names = output
+    .split('\0')
+    .filter((file) => file.startsWith(prefix))
+    .map((file) => file.slice(prefix.length).split('/')[0]);
+  return [...new Set(names)];
+}
@@ -0,0 +1,290 @@
+/**
+ * Minimal YAML frontmatter parser for SKILL.md files.
+ *
+ * Supports the subset skills actually use: scalars (plain or quoted),
+ * inline lists ([a, b]), block lists, one level of nested maps and
+ * block scalars (| and >). Anything else is reported with its line.
+ */
+
+export class FrontmatterError extends Error {
+  constructor(
+    message: string,
+    /** 1-based line number in the source file */
+    public line: number,
+  ) {
+    super(message);
+    this.name = 'FrontmatterError';
+  }
+}
+
+export interface ParsedFrontmatter {
+  data: Record<string, unknown>;
+  body: string;
+  /** 1-based line number where the body starts */
+  bodyLine: number;
+}
+
+const KEY_RE = /^([A-Za-z0-9_][A-Za-z0-9_.-]*)\s*:(?:\s+(.*?))?\s*$/;
+
+/** Single-character escapes in double-quoted scalars (YAML 1.2) */
+const ESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\x85',
+  _: '\xa0',
+  L: '\u2028',
+  P: '\u2029',
+};
+
+/** Escapes followed by a code point in hex, with their digit count */
+const HEX_ESCAPES: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+/**
+ * Split a markdown file into frontmatter and body.
+ * Returns null when the file has no frontmatter block.
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter | null {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (lines[0]?.trim() !== '---') return null;
+
+  const end = lines.findIndex((l, i) => i > 0 && l.trim() === '---');
+  if (end === -1) {
+    throw new FrontmatterError('Unterminated frontmatter (missing closing ---)', 1);
+  }
+
+  // Line numbers are offset by one for the opening delimiter
+  const data = parseBlock(lines.slice(1, end), 2);
+
+  return {
+    data,
+    body: lines.slice(end + 1).join('\n'),
+    bodyLine: end + 2,
+  };
+}
+
+function parseBlock(lines: string[], firstLine: number): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  let i = 0;
+
+  while (i < lines.length) {
+    const raw = lines[i];
+    const lineNo = firstLine + i;
+
+    if (isBlank(raw)) {
+      i++;
+      continue;
+    }
+    if (/^\s*\t/.test(raw)) {
+      throw new FrontmatterError('Tabs are not allowed for indentation', lineNo);
+    }
+    if (/^\s/.test(raw)) {
+      throw new FrontmatterError('Unexpected indentation', lineNo);
+    }
+
+    const match = KEY_RE.exec(raw);
+    if (!match) {
+      throw new FrontmatterError(`Expected "key: value", got "${raw.trim()}"`, lineNo);
+    }
+
+    const [, key, value = ''] = match;
+    if (key in data) {
+      throw new FrontmatterError(`Duplicate key "${key}"`, lineNo);
+    }
+
+    // Collect the indented lines that belong to this key
+    const children: string[] = [];
+    let j = i + 1;
+    while (j < lines.length && (isBlank(lines[j]) || /^\s/.test(lines[j]))) {
+      children.push(lines[j]);
+      j++;
+    }
+    while (children.length > 0 && isBlank(children[children.length - 1])) {
+      children.pop();
+      j--;
+    }
+
+    if (value === '|' || value === '>' || /^[|>][-+]?$/.test(value)) {
+      data[key] = parseBlockScalar(children, value[0] === '>');
+    } else if (value !== '') {
+      if (children.length > 0) {
+        throw new FrontmatterError('Unexpected indentation', lineNo + 1);
+      }
+      data[key] = parseScalar(value, lineNo);
+    } else if (children.length === 0) {
+      data[key] = null;
+    } else if (children.find((l) => !isBlank(l))!.trim().startsWith('-')) {
+      data[key] = parseBlockList(children, lineNo + 1);
+    } else {
+      data[key] = parseNestedMap(children, lineNo + 1);
+    }
+
+    i = j;
+  }
+
+  return data;
+}
+
+function parseBlockScalar(lines: string[], folded: boolean): string {
+  const indent = Math.min(
+    ...lines.filter((l) => !isBlank(l)).map((l) => l.length - l.trimStart().length),
+  );
+  const text = lines.map((l) => l.slice(indent));
+  return folded ? text.join(' ').replace(/\s+/g, ' ').trim() : text.join('\n');
+}
+
+function parseBlockList(lines: string[], firstLine: number): unknown[] {
+  const items: unknown[] = [];
+  lines.forEach((l, i) => {
+    if (isBlank(l)) return;
+    const item = /^\s+-(?:\s+(.*?))?\s*$/.exec(l);
+    if (!item) {
+      throw new FrontmatterError(`Expected list item, got "${l.trim()}"`, firstLine + i);
+    }
+    items.push(item[1] === undefined ? null : parseScalar(item[1], firstLine + i));
+  });
+  return items;
+}
+
+function parseNestedMap(lines: string[], firstLine: number): Record<string, unknown> {
+  const indent = lines[0].length - lines[0].trimStart().length;
+  return parseBlock(
+    lines.map((l, i) => {
+      if (!isBlank(l) && l.length - l.trimStart().length < indent) {
+        throw new FrontmatterError('Inconsistent indentation', firstLine + i);
+      }
+      return l.slice(indent);
+    }),
+    firstLine,
+  );
+}
+
+/** Write a scalar so parseFrontmatter reads it back unchanged, quoting only when needed */
+export function formatScalar(value: string | boolean): string {
+  if (typeof value === 'boolean') return String(value);
+  // Plain scalars can't start with indicators, contain ": " / " #" or look like other types
+  const plain =
+    value !== '' &&
+    !/^[-?:,[\]{}#&*!|>'"%@`\s]|: | #|\s$|\n/.test(value) &&
+    !/^(true|false|null|~|[\d.+-]+)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function parseScalar(value: string, lineNo: number): unknown {
+  if (value.startsWith('"')) {
+    const [text, rest] = readDoubleQuoted(value, lineNo);
+    expectComment(rest, 'the closing quote', lineNo);
+    return text;
+  }
+  if (value.startsWith("'")) {
+    const match = /^'((?:[^']|'')*)'(.*)$/.exec(value);
+    if (!match) {
+      throw new FrontmatterError('Unterminated single-quoted string', lineNo);
+    }
+    expectComment(match[2], 'the closing quote', lineNo);
+    return match[1].replace(/''/g, "'");
+  }
+  if (value.startsWith('[')) {
+    const [items, rest] = readInlineList(value, lineNo);
+    expectComment(rest, 'the inline list', lineNo);
+    return items.length === 1 && items[0] === ''
+      ? []
+      : items.map((item) => parseScalar(item, lineNo));
+  }
+  if (value.startsWith('{')) {
+    throw new FrontmatterError('Inline maps are not supported', lineNo);
+  }
+
+  // Strip trailing comments from plain scalars
+  const plain = value.replace(/\s+#.*$/, '');
+  if (plain === 'true') return true;
+  if (plain === 'false') return false;
+  if (plain === 'null' || plain === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(plain)) return Number(plain);
+  return plain;
+}
+
+/** Unescape a double-quoted scalar; returns it and whatever follows the closing quote */
+function readDoubleQuoted(value: string, lineNo: number): [string, string] {
+  let text = '';
+  for (let i = 1; i < value.length; i++) {
+    const char = value[i];
+    if (char === '"') return [text, value.slice(i + 1)];
+    if (char !== '\\') {
+      text += char;
+      continue;
+    }
+
+    const escape = value[++i];
+    if (escape === undefined) break;
+    if (Object.hasOwn(ESCAPES, escape)) {
+      text += ESCAPES[escape];
+      continue;
+    }
+    const digits = Object.hasOwn(HEX_ESCAPES, escape) ? HEX_ESCAPES[escape] : 0;
+    const hex = value.slice(i + 1, i + 1 + digits);
+    const code = parseInt(hex, 16);
+    if (digits === 0 || !/^[0-9a-fA-F]+$/.test(hex) || hex.length < digits || code > 0x10ffff) {
+      throw new FrontmatterError(
+        `Invalid escape "\\${escape}${hex}" in double-quoted string`,
+        lineNo,
+      );
+    }
+    text += String.fromCodePoint(code);
+    i += digits;
+  }
+  throw new FrontmatterError('Unterminated double-quoted string', lineNo);
+}
+
+/** Split an inline list on commas outside quoted items; returns the items and what follows "]" */
+function readInlineList(value: string, lineNo: number): [string[], string] {
+  const items: string[] = [];
+  let item = '';
+  let quote = '';
+
+  for (let i = 1; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      // Keep escapes (\" or '') inside the item for parseScalar
+      if ((quote === '"' && char === '\\') || (quote === "'" && value.slice(i, i + 2) === "''")) {
+        item += value.slice(i, i + 2);
+        i++;
+        continue;
+      }
+      if (char === quote) quote = '';
+    } else if ((char === '"' || char === "'") && item.trim() === '') {
+      quote = char;
+    } else if (char === ',' || char === ']') {
+      items.push(item.trim());
+      item = '';
+      if (char === ']') return [items, value.slice(i + 1)];
+      continue;
+    }
+    item += char;
+  }
+
+  throw new FrontmatterError('Unterminated inline list', lineNo);
+}
+
+/** Only a comment may follow a quoted scalar or inline list */
+function expectComment(rest: string, after: string, lineNo: number): void {
+  if (rest !== '' && !/^\s+#/.test(rest)) {
+    throw new FrontmatterError(`Unexpected "${rest.trim()}" after ${after}`, lineNo);
+  }
+}
+
+function isBlank(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === '' || trimmed.startsWith('#');
+}
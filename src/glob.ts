@@ -0,0 +1,35 @@
+/**
+ * Minimal glob matching for workspace patterns and skill filters:
+ * `*` matches within one path segment, `**` across segments, `?` one char.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+  let re = '';
+
+  for (let i = 0; i < normalized.length; i++) {
+    const c = normalized[i];
+    if (c === '*' && normalized[i + 1] === '*') {
+      // "**/" also matches zero segments
+      if (normalized[i + 2] === '/') {
+        re += '(?:.*/)?';
+        i += 2;
+      } else {
+        re += '.*';
+        i++;
+      }
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${re}$`);
+}
+
+/** Match a relative, slash-separated path against a glob */
+export function matchGlob(pattern: string, path: string): boolean {
+  return globToRegExp(pattern).test(path.split('\\').join('/'));
+}
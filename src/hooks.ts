@@ -0,0 +1,177 @@
+import { execFileSync } from 'child_process';
+import { chmodSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+
+/** Git hooks that run after the working tree changes under skills */
+export const HOOK_NAMES = ['post-checkout', 'post-merge', 'post-rewrite'] as const;
+
+export type HookName = (typeof HOOK_NAMES)[number];
+
+const BEGIN_MARKER = '# >>> skillink >>>';
+const END_MARKER = '# <<< skillink <<<';
+
+/** Interpreters that can run the block; hooks without a shebang are run by sh */
+const SHELL_SHEBANG_RE = /^#!\s*\S*\/(?:env\s+)?(?:ba|da|k|z)?sh(?:\s|$)/;
+
+export interface HookChange {
+  hook: HookName;
+  path: string;
+  /**
+   * created/deleted: the whole file; added/updated/removed: the skillink
+   * block in a hook with other content; unchanged: nothing to do;
+   * skipped: an existing hook that isn't a shell script
+   */
+  action: 'created' | 'added' | 'updated' | 'removed' | 'deleted' | 'unchanged' | 'skipped';
+}
+
+export interface HookOptions {
+  dryRun?: boolean;
+  /** Sync only to detected agents (for projects that don't configure `agents`) */
+  detected?: boolean;
+}
+
+/**
+ * Directory git runs hooks from: core.hooksPath if set (relative to the
+ * working tree root), otherwise hooks/ in the common git dir, so linked
+ * worktrees share them.
+ */
+export function getHooksDir(root: string): string {
+  const git = (...args: string[]) =>
+    execFileSync('git', args, { cwd: root, stdio: 'pipe' }).toString().trim();
+
+  let top: string;
+  try {
+    top = git('rev-parse', '--show-toplevel');
+  } catch {
+    throw new Error(`${root} is not inside a git repository`);
+  }
+
+  let hooksPath = '';
+  try {
+    hooksPath = git('config', '--path', '--get', 'core.hooksPath');
+  } catch {
+    // Exit code 1: not set
+  }
+  if (hooksPath) return resolve(top, hooksPath);
+
+  return join(resolve(top, git('rev-parse', '--git-common-dir')), 'hooks');
+}
+
+/** The managed block for a hook: a quiet, non-interactive sync that never fails git */
+export function hookBlock(hook: HookName, options: Pick<HookOptions, 'detected'> = {}): string {
+  const command = `sync --yes${options.detected ? ' --detected' : ''} >/dev/null || true`;
+  const sync = [
+    'if [ -x node_modules/.bin/skillink ]; then',
+    `  node_modules/.bin/skillink ${command}`,
+    'elif command -v skillink >/dev/null 2>&1; then',
+    `  skillink ${command}`,
+    'fi',
+  ];
+  // post-checkout also runs for file checkouts ($3 = 0), which can't add or remove skills
+  const body =
+    hook === 'post-checkout'
+      ? ['if [ "$3" = "1" ]; then', ...sync.map((line) => `  ${line}`), 'fi']
+      : sync;
+
+  return [
+    BEGIN_MARKER,
+    '# Keeps agent skill links in sync. Managed by "skillink hooks"; edits are overwritten.',
+    ...body,
+    END_MARKER,
+  ].join('\n');
+}
+
+/**
+ * Add the skillink block to each hook, keeping whatever else the hook
+ * does: it goes before a final `exit`, and hooks in other languages are
+ * skipped. Re-running replaces an outdated block.
+ */
+export function installHooks(root: string, options: HookOptions = {}): HookChange[] {
+  const dir = getHooksDir(root);
+
+  return HOOK_NAMES.map((hook): HookChange => {
+    const path = join(dir, hook);
+    const block = hookBlock(hook, options);
+    const current = existsSync(path) ? readFileSync(path, 'utf-8') : null;
+
+    let content: string;
+    let action: HookChange['action'];
+    if (current === null) {
+      content = `#!/bin/sh\n\n${block}\n`;
+      action = 'created';
+    } else if (findBlock(current)) {
+      const { start, end } = findBlock(current)!;
+      content = current.slice(0, start) + block + current.slice(end);
+      action = content === current ? 'unchanged' : 'updated';
+    } else if (current.startsWith('#!') && !SHELL_SHEBANG_RE.test(current)) {
+      return { hook, path, action: 'skipped' };
+    } else {
+      content = insertBlock(current, block);
+      action = 'added';
+    }
+
+    if (!options.dryRun && action !== 'unchanged') {
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(path, content);
+    }
+    if (!options.dryRun) chmodSync(path, 0o755);
+    return { hook, path, action };
+  });
+}
+
+/**
+ * Remove the skillink block from each hook. A hook left with nothing but
+ * its shebang is deleted.
+ */
+export function uninstallHooks(root: string, options: HookOptions = {}): HookChange[] {
+  const dir = getHooksDir(root);
+
+  return HOOK_NAMES.map((hook): HookChange => {
+    const path = join(dir, hook);
+    const current = existsSync(path) ? readFileSync(path, 'utf-8') : null;
+    const block = current !== null ? findBlock(current) : null;
+    if (current === null || !block) return { hook, path, action: 'unchanged' };
+
+    const content = (current.slice(0, block.start) + current.slice(block.end))
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/\n*$/, '\n');
+    const empty = content.replace(/^#!.*\n/, '').trim() === '';
+
+    if (!options.dryRun) {
+      if (empty) rmSync(path);
+      else writeFileSync(path, content);
+    }
+    return { hook, path, action: empty ? 'deleted' : 'removed' };
+  });
+}
+
+/** Hooks that currently contain the skillink block */
+export function installedHooks(root: string): HookName[] {
+  const dir = getHooksDir(root);
+  return HOOK_NAMES.filter((hook) => {
+    const path = join(dir, hook);
+    return existsSync(path) && findBlock(readFileSync(path, 'utf-8')) !== null;
+  });
+}
+
+/** Append the block, or put it before a final top-level `exit` so it still runs */
+function insertBlock(content: string, block: string): string {
+  const trimmed = content.replace(/\n*$/, '');
+  const lastLine = trimmed.slice(trimmed.lastIndexOf('\n') + 1);
+  if (/^exit\b/.test(lastLine) && trimmed.includes('\n')) {
+    const head = trimmed.slice(0, -lastLine.length).replace(/\n*$/, '');
+    return `${head}\n\n${block}\n\n${lastLine}\n`;
+  }
+  return `${trimmed}\n\n${block}\n`;
+}
+
+/** Offsets of the managed block, from its begin marker to the end of its end marker */
+function findBlock(content: string): { start: number; end: number } | null {
+  const start = content.indexOf(BEGIN_MARKER);
+  if (start === -1) return null;
+  const end = content.indexOf(END_MARKER, start);
+  if (end === -1) {
+    throw new Error(`Hook has a "${BEGIN_MARKER}" line without a matching "${END_MARKER}"`);
+  }
+  return { start, end: end + END_MARKER.length };
+}
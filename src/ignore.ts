@@ -0,0 +1,69 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { globToRegExp } from './glob.ts';
+
+/** Ignore file in a source directory, with .gitignore syntax */
+export const IGNORE_FILE = '.skillinkignore';
+
+export interface IgnoreRule {
+  /** `!pattern` re-includes what earlier rules ignored */
+  negate: boolean;
+  regex: RegExp;
+  /** Patterns without a slash match a directory name at any depth */
+  anyDepth: boolean;
+}
+
+/**
+ * Parse .gitignore-style lines: `#` comments, `!` negation, a leading `/`
+ * to anchor to the source, and `*`, `**` and `?` wildcards. Every skill is
+ * a directory, so a trailing `/` changes nothing.
+ */
+export function parseIgnore(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    // "\#" and "\!" escape a leading special character
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const pattern = line.replace(/\/+$/, '');
+    if (pattern === '') continue;
+    rules.push({
+      negate,
+      regex: globToRegExp(pattern.replace(/^\//, '')),
+      anyDepth: !pattern.includes('/'),
+    });
+  }
+
+  return rules;
+}
+
+/** Rules from a source's .skillinkignore; empty without one */
+export function readIgnore(root: string, source: string): IgnoreRule[] {
+  const path = join(root, source, IGNORE_FILE);
+  return existsSync(path) ? parseIgnore(readFileSync(path, 'utf-8')) : [];
+}
+
+/**
+ * Whether a skill path (relative to the source) is ignored. As in git, the
+ * last matching rule wins, and a skill inside an ignored category stays
+ * ignored even if a later rule matches the skill itself.
+ */
+export function isIgnored(rules: IgnoreRule[], id: string): boolean {
+  if (rules.length === 0) return false;
+
+  const segments = id.split('/');
+  for (let i = 1; i <= segments.length; i++) {
+    const path = segments.slice(0, i).join('/');
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.regex.test(rule.anyDepth ? segments[i - 1] : path)) ignored = !rule.negate;
+    }
+    if (ignored) return true;
+  }
+  return false;
+}
@@ -0,0 +1,238 @@
+import { execFileSync } from 'child_process';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'path';
+import { copyTree } from './copy.ts';
+import { isValidSkill, isValidSkillName, loadSkill, SKILL_FILE } from './skills.ts';
+import type { Skill } from './types.ts';
+
+/** Where installed skills came from, relative to project root */
+export const ORIGINS_FILE = '.agents/skillink-origins.json';
+
+const ARCHIVE_RE = /\.(tgz|tar\.gz|tar|zip)$/i;
+
+export interface SkillOrigin {
+  type: 'path' | 'archive';
+  /** Path as given, relative to the project root when inside it */
+  location: string;
+  /** ISO timestamp of the install */
+  addedAt: string;
+}
+
+/** A skill ready to be installed, possibly extracted to a temp dir */
+export interface SkillPackage {
+  /** Name declared in SKILL.md frontmatter */
+  name: string;
+  dir: string;
+  skill: Skill;
+  origin: SkillOrigin;
+  /** Remove temporary files (extracted archives) */
+  cleanup: () => void;
+}
+
+/**
+ * Open a skill from a directory, a SKILL.md path, or a .tgz/.tar/.zip archive.
+ * Throws if no SKILL.md is found or the skill is invalid.
+ */
+export function openSkillPackage(root: string, input: string): SkillPackage {
+  const inputPath = resolve(root, input);
+  if (!existsSync(inputPath)) {
+    throw new Error(`${input} does not exist`);
+  }
+
+  const location = isInside(root, inputPath) ? relative(root, inputPath) : inputPath;
+  const addedAt = new Date().toISOString();
+  let dir: string;
+  let origin: SkillOrigin;
+  let cleanup = () => {};
+
+  if (statSync(inputPath).isDirectory()) {
+    dir = inputPath;
+    origin = { type: 'path', location, addedAt };
+  } else if (basename(inputPath) === SKILL_FILE) {
+    dir = dirname(inputPath);
+    origin = { type: 'path', location: dirname(location) || '.', addedAt };
+  } else if (ARCHIVE_RE.test(inputPath)) {
+    const tempDir = mkdtempSync(join(tmpdir(), 'skillink-add-'));
+    cleanup = () => rmSync(tempDir, { recursive: true, force: true });
+    try {
+      extractArchive(inputPath, tempDir);
+      dir = findSkillDir(tempDir, input);
+    } catch (e) {
+      cleanup();
+      throw e;
+    }
+    origin = { type: 'archive', location, addedAt };
+  } else {
+    throw new Error(`${input} is not a directory, ${SKILL_FILE} or .tgz/.tar/.zip archive`);
+  }
+
+  try {
+    if (!existsSync(join(dir, SKILL_FILE))) {
+      throw new Error(`No ${SKILL_FILE} found in ${input}`);
+    }
+
+    // Load under the declared name so only real problems are reported
+    const declared = loadSkill(dir, basename(dir)).frontmatter.name;
+    if (typeof declared !== 'string' || declared === '') {
+      throw new Error(`${SKILL_FILE} in ${input} does not declare a "name"`);
+    }
+    // The name becomes the install path, so it must be a plain skill name
+    if (!isValidSkillName(declared)) {
+      throw new Error(
+        `${SKILL_FILE} in ${input} declares an invalid name "${declared}" (lowercase letters, digits and hyphens)`,
+      );
+    }
+
+    const skill = loadSkill(dir, declared);
+    if (!isValidSkill(skill)) {
+      const problems = skill.issues
+        .filter((i) => i.severity === 'error')
+        .map((i) => i.message)
+        .join('; ');
+      throw new Error(`Invalid skill in ${input}: ${problems}`);
+    }
+
+    return { name: declared, dir, skill, origin, cleanup };
+  } catch (e) {
+    cleanup();
+    throw e;
+  }
+}
+
+/**
+ * Copy a skill package into the source under its declared name and
+ * record its origin. Throws if the skill exists and `force` is not set.
+ */
+export function installSkill(
+  root: string,
+  source: string,
+  pkg: SkillPackage,
+  options: { force?: boolean } = {},
+): { target: string; replaced: boolean } {
+  const target = skillPath(root, source, pkg.name);
+  const replaced = existsSync(target);
+
+  if (replaced && !options.force) {
+    throw new Error(`Skill "${pkg.name}" already exists in ${source}`);
+  }
+  if (isInside(target, pkg.dir) || isInside(pkg.dir, target)) {
+    throw new Error(`${pkg.origin.location} is already the installed skill "${pkg.name}"`);
+  }
+
+  copyTree(pkg.dir, target);
+
+  const origins = readOrigins(root);
+  origins[pkg.name] = pkg.origin;
+  writeOrigins(root, origins);
+
+  return { target, replaced };
+}
+
+/** Delete a skill from the source and forget its origin */
+export function uninstallSkill(root: string, source: string, name: string): void {
+  const target = skillPath(root, source, name);
+  if (!existsSync(target)) {
+    throw new Error(`Skill "${name}" not found in ${source}`);
+  }
+
+  rmSync(target, { recursive: true, force: true });
+
+  const origins = readOrigins(root);
+  if (name in origins) {
+    delete origins[name];
+    writeOrigins(root, origins);
+  }
+}
+
+export function readOrigins(root: string): Record<string, SkillOrigin> {
+  const path = join(root, ORIGINS_FILE);
+  if (!existsSync(path)) return {};
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')).skills ?? {};
+  } catch (e) {
+    throw new Error(
+      `Failed to parse ${ORIGINS_FILE}: ${e instanceof Error ? e.message : e}`,
+    );
+  }
+}
+
+function writeOrigins(root: string, origins: Record<string, SkillOrigin>): void {
+  const path = join(root, ORIGINS_FILE);
+
+  if (Object.keys(origins).length === 0) {
+    if (existsSync(path)) rmSync(path);
+    return;
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify({ skills: origins }, null, 2) + '\n');
+}
+
+function extractArchive(file: string, dest: string): void {
+  try {
+    if (/\.zip$/i.test(file)) {
+      try {
+        execFileSync('unzip', ['-q', file, '-d', dest], { stdio: 'pipe' });
+        return;
+      } catch (e) {
+        // No unzip binary — bsdtar (macOS, Windows) reads zip files too
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+      }
+    }
+    execFileSync('tar', ['-xf', file, '-C', dest], { stdio: 'pipe' });
+  } catch (e) {
+    const stderr = (e as { stderr?: Buffer }).stderr?.toString().trim();
+    throw new Error(`Failed to extract ${basename(file)}${stderr ? `: ${stderr}` : ''}`);
+  }
+}
+
+/** Find the skill inside an extracted archive: its root or a single top-level dir */
+function findSkillDir(dir: string, input: string): string {
+  if (existsSync(join(dir, SKILL_FILE))) return dir;
+
+  const candidates = readdirSync(dir, { withFileTypes: true })
+    .filter((e) => e.isDirectory() && existsSync(join(dir, e.name, SKILL_FILE)))
+    .map((e) => join(dir, e.name));
+
+  if (candidates.length === 0) {
+    throw new Error(`No ${SKILL_FILE} found in ${input}`);
+  }
+  if (candidates.length > 1) {
+    throw new Error(`${input} contains more than one skill`);
+  }
+  return candidates[0];
+}
+
+/**
+ * Path of a skill in the source. Throws unless each part of the name
+ * (nested skills go by `category/skill`) is a valid skill name, so the
+ * path can never leave the source.
+ */
+function skillPath(root: string, source: string, name: string): string {
+  const sourceDir = resolve(root, source);
+  const target = resolve(sourceDir, name);
+  if (
+    !name.split('/').every(isValidSkillName) ||
+    target === sourceDir ||
+    !isInside(sourceDir, target)
+  ) {
+    throw new Error(`Invalid skill name "${name}"`);
+  }
+  return target;
+}
+
+function isInside(parent: string, child: string): boolean {
+  const rel = relative(parent, child);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
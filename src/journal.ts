@@ -0,0 +1,348 @@
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  readlinkSync,
+  rmdirSync,
+  rmSync,
+  writeFileSync,
+  type Stats,
+} from 'fs';
+import { dirname, join } from 'path';
+import { restore, undoChange, type Change } from './changeset.ts';
+import { hashTree, manifestKey, readManifest, writeManifest, type CopyRecord } from './copy.ts';
+
+/** Operation journal, relative to project root */
+export const JOURNAL_FILE = '.agents/skillink-journal.json';
+
+/** Trees that journaled runs replaced or removed, one directory per run */
+export const BACKUP_DIR = '.agents/skillink-backups';
+
+/** Runs kept in the journal; older ones are dropped with their backups */
+export const MAX_RUNS = 20;
+
+const CHANGE_TYPES = ['mkdir', 'link', 'unlink', 'write', 'remove'];
+
+/** A file system change, with paths relative to the project root */
+export type JournalChange =
+  | { type: 'mkdir'; path: string }
+  | { type: 'link'; path: string; target: string }
+  /** A link removed, with its old target */
+  | { type: 'unlink'; path: string; target: string }
+  /**
+   * A copy or rule file written. `hash` is its content afterwards (absent when
+   * a later change in the run replaced it); `backup` is what it overwrote.
+   */
+  | { type: 'write'; path: string; hash?: string; backup?: string }
+  | { type: 'remove'; path: string; backup: string };
+
+export interface JournalRun {
+  id: number;
+  /** Command that made the changes, e.g. "sync" or "clean" */
+  command: string;
+  /** ISO timestamp */
+  at: string;
+  changes: JournalChange[];
+  /**
+   * Copy manifest records the run changed, as they were before it (null:
+   * absent), by the directory holding the manifest ("." for the project
+   * root, or a workspace package)
+   */
+  copies: Record<string, Record<string, CopyRecord | null>>;
+}
+
+export interface Journal {
+  version: 1;
+  /** Oldest first */
+  runs: JournalRun[];
+}
+
+/**
+ * Collects one command's changes into a single journal run, even when it
+ * syncs several roots (workspace packages). Pass it as `journal` to
+ * syncSkills or cleanSkills.
+ */
+export interface JournalRecorder {
+  /**
+   * Add the changes of one sync of `dir` (the project root or a directory
+   * inside it) and save the run. Backups the changeset made are copied
+   * under BACKUP_DIR, so call this before the changeset is disposed.
+   * `before` and `after` are the dir's copy manifest records around the sync.
+   */
+  record(
+    dir: string,
+    changes: Change[],
+    before: Record<string, CopyRecord>,
+    after: Record<string, CopyRecord>,
+  ): void;
+}
+
+export function readJournal(root: string): Journal {
+  const path = join(root, JOURNAL_FILE);
+  if (!existsSync(path)) {
+    return { version: 1, runs: [] };
+  }
+
+  let journal: unknown;
+  try {
+    journal = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (e) {
+    throw new Error(`Failed to parse ${JOURNAL_FILE}: ${e instanceof Error ? e.message : e}`);
+  }
+
+  const runs = (journal as { runs?: unknown } | null)?.runs;
+  if (!Array.isArray(runs) || !runs.every(isRun)) {
+    throw new Error(`Invalid ${JOURNAL_FILE}: "runs" must be a list of journaled runs`);
+  }
+  return { version: 1, runs };
+}
+
+function isRun(value: unknown): value is JournalRun {
+  const run = value as Partial<JournalRun> | null;
+  return (
+    typeof run === 'object' &&
+    run !== null &&
+    typeof run.id === 'number' &&
+    typeof run.command === 'string' &&
+    typeof run.at === 'string' &&
+    Array.isArray(run.changes) &&
+    run.changes.every(
+      (c) =>
+        typeof c === 'object' &&
+        c !== null &&
+        CHANGE_TYPES.includes(c.type) &&
+        typeof c.path === 'string' &&
+        (!('target' in c) || typeof c.target === 'string') &&
+        (!('backup' in c) || c.backup === undefined || typeof c.backup === 'string'),
+    ) &&
+    typeof run.copies === 'object' &&
+    run.copies !== null &&
+    Object.values(run.copies).every((records) => typeof records === 'object' && records !== null)
+  );
+}
+
+function writeJournal(root: string, journal: Journal): void {
+  const path = join(root, JOURNAL_FILE);
+
+  if (journal.runs.length === 0) {
+    if (existsSync(path)) rmSync(path);
+    return;
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(journal, null, 2) + '\n');
+}
+
+/**
+ * Start a journal run for a command in the project at `root`. Nothing is
+ * written until it records a change, so dry runs and runs that changed
+ * nothing leave no trace.
+ */
+export function createJournalRun(root: string, command: string): JournalRecorder {
+  let run: JournalRun | undefined;
+  let backups = 0;
+  const rel = (path: string) => manifestKey(root, path);
+
+  return {
+    record(dir, changes, before, after) {
+      const copies: Record<string, CopyRecord | null> = {};
+      for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+          copies[key] = before[key] ?? null;
+        }
+      }
+      if (changes.length === 0 && Object.keys(copies).length === 0) return;
+
+      const journal = readJournal(root);
+      run ??= {
+        id: (journal.runs.at(-1)?.id ?? 0) + 1,
+        command,
+        at: new Date().toISOString(),
+        changes: [],
+        copies: {},
+      };
+      const id = run.id;
+      const keep = (backup: string) => {
+        const dest = `${BACKUP_DIR}/${id}/${backups++}`;
+        mkdirSync(dirname(join(root, dest)), { recursive: true });
+        restore(backup, join(root, dest));
+        return dest;
+      };
+      // Only the last change to a path says what should be there now
+      const last = new Map(changes.map((change, i) => [change.path, i]));
+
+      run.changes.push(
+        ...changes.map((change, i): JournalChange => {
+          switch (change.type) {
+            case 'mkdir':
+              return { type: 'mkdir', path: rel(change.path) };
+            case 'link':
+            case 'unlink':
+              return { type: change.type, path: rel(change.path), target: change.target };
+            case 'write':
+              return {
+                type: 'write',
+                path: rel(change.path),
+                ...(last.get(change.path) === i ? { hash: hashPath(change.path) } : {}),
+                ...(change.backup ? { backup: keep(change.backup) } : {}),
+              };
+            case 'remove':
+              return { type: 'remove', path: rel(change.path), backup: keep(change.backup) };
+          }
+        }),
+      );
+      if (Object.keys(copies).length > 0) {
+        const manifestDir = rel(dir) || '.';
+        // The first record of a key is its state before the whole run
+        run.copies[manifestDir] = { ...copies, ...run.copies[manifestDir] };
+      }
+
+      const runs = journal.runs.filter((r) => r.id !== id);
+      runs.push(run);
+      for (const dropped of runs.splice(0, Math.max(0, runs.length - MAX_RUNS))) {
+        dropBackups(root, dropped.id);
+      }
+      writeJournal(root, { version: 1, runs });
+    },
+  };
+}
+
+/**
+ * Paths whose current state differs from what the run left behind, each
+ * with a short description of what was expected.
+ */
+export function findDrift(root: string, run: JournalRun): { path: string; expected: string }[] {
+  const last = new Map(run.changes.map((change) => [change.path, change]));
+  const drift: { path: string; expected: string }[] = [];
+
+  for (const [path, change] of last) {
+    const abs = join(root, path);
+    const stat = lstatSafe(abs);
+    switch (change.type) {
+      case 'mkdir':
+        // Directories are only removed again if empty, so anything goes
+        break;
+      case 'link':
+        if (!stat?.isSymbolicLink() || readlinkSync(abs) !== change.target) {
+          drift.push({ path, expected: `link to ${change.target}` });
+        }
+        break;
+      case 'write':
+        if (!stat || stat.isSymbolicLink() || hashPath(abs) !== change.hash) {
+          drift.push({ path, expected: 'content written by the run' });
+        }
+        break;
+      case 'unlink':
+      case 'remove':
+        if (stat) drift.push({ path, expected: 'nothing' });
+        break;
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Reverse the newest run and drop it from the journal, so the next undo
+ * goes one run further back. Refuses if anything the run touched has
+ * changed since. Returns the run, or null when the journal is empty.
+ *
+ * If some steps fail, the rest are still undone and the run is kept with
+ * only the failed steps (and its backups), so undo can be retried once
+ * the cause is fixed.
+ */
+export function undoLastRun(root: string, options: { dryRun?: boolean } = {}): JournalRun | null {
+  const journal = readJournal(root);
+  const run = journal.runs.at(-1);
+  if (!run) return null;
+
+  const drift = findDrift(root, run);
+  if (drift.length > 0) {
+    throw new Error(
+      `Cannot undo ${run.command} #${run.id}: changed since it ran: ${drift
+        .map((d) => `${d.path} (expected ${d.expected})`)
+        .join(', ')}`,
+    );
+  }
+  if (options.dryRun) return run;
+
+  const failed: { change: JournalChange; reason: string }[] = [];
+  for (const change of [...run.changes].reverse()) {
+    try {
+      undoChange(absolute(root, change));
+    } catch (e) {
+      failed.push({ change, reason: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  const failedPaths = new Set(failed.map((f) => f.change.path));
+
+  // Manifest records of copies that couldn't be restored stay as they are
+  const keptCopies: JournalRun['copies'] = {};
+  for (const [dir, records] of Object.entries(run.copies)) {
+    const manifest = readManifest(join(root, dir));
+    for (const [key, record] of Object.entries(records)) {
+      if (failedPaths.has(dir === '.' ? key : `${dir}/${key}`)) {
+        (keptCopies[dir] ??= {})[key] = record;
+      } else if (record) {
+        manifest.copies[key] = record;
+      } else {
+        delete manifest.copies[key];
+      }
+    }
+    writeManifest(join(root, dir), manifest);
+  }
+
+  if (failed.length > 0) {
+    run.changes = run.changes.filter((change) => failed.some((f) => f.change === change));
+    run.copies = keptCopies;
+    writeJournal(root, journal);
+    throw new Error(
+      `Could not undo ${failed.map((f) => `${f.change.path}: ${f.reason}`).join('; ')}. ` +
+        `${run.command} #${run.id} is kept with these steps; fix the cause and run undo again.`,
+    );
+  }
+
+  journal.runs.pop();
+  writeJournal(root, journal);
+  dropBackups(root, run.id);
+  return run;
+}
+
+function absolute(root: string, change: JournalChange): Change {
+  const path = join(root, change.path);
+  switch (change.type) {
+    case 'mkdir':
+      return { type: 'mkdir', path };
+    case 'link':
+    case 'unlink':
+      return { type: change.type, path, target: change.target };
+    case 'write':
+      return { type: 'write', path, backup: change.backup && join(root, change.backup) };
+    case 'remove':
+      return { type: 'remove', path, backup: join(root, change.backup) };
+  }
+}
+
+/** Delete a run's backups, and the backup dir once it is empty */
+function dropBackups(root: string, id: number): void {
+  const dir = join(root, BACKUP_DIR);
+  rmSync(join(dir, String(id)), { recursive: true, force: true });
+  if (existsSync(dir) && readdirSync(dir).length === 0) rmdirSync(dir);
+}
+
+/** Hash of a copy (directory tree) or rule file */
+function hashPath(path: string): string {
+  if (lstatSync(path).isDirectory()) return hashTree(path);
+  return `sha256-${createHash('sha256').update(readFileSync(path)).digest('hex')}`;
+}
+
+function lstatSafe(path: string): Stats | null {
+  try {
+    return lstatSync(path);
+  } catch {
+    return null;
+  }
+}
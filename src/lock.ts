@@ -0,0 +1,91 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { hashTree } from './copy.ts';
+import { readOrigins } from './install.ts';
+import { loadLayeredSkills } from './skills.ts';
+
+/** Skills lockfile, relative to project root */
+export const LOCK_FILE = '.agents/skills.lock.json';
+
+export interface LockEntry {
+  /** Where the skill came from; "local" for skills authored in place */
+  origin: { type: 'local' } | { type: 'path' | 'archive'; location: string };
+  /** Tree hash of the skill directory */
+  hash: string;
+}
+
+export interface Lockfile {
+  version: 1;
+  skills: Record<string, LockEntry>;
+}
+
+export interface VerifyResult {
+  /** Skills in the sources but not in the lockfile */
+  added: string[];
+  /** Skills in the lockfile but not in the sources */
+  removed: string[];
+  /** Skills whose content no longer matches the locked hash */
+  changed: string[];
+}
+
+/**
+ * Hash every skill into a lockfile (keys sorted for stable diffs). Sources
+ * are layered lowest precedence first, as for sync, so a skill is locked
+ * from the layer that wins.
+ */
+export function buildLock(root: string, sources: string[]): Lockfile {
+  const origins = readOrigins(root);
+  const skills: Record<string, LockEntry> = {};
+  const layered = new Map(
+    loadLayeredSkills(root, sources).map(({ skill, source }) => [skill.dirName, source]),
+  );
+
+  for (const name of [...layered.keys()].sort()) {
+    const origin = origins[name];
+    skills[name] = {
+      origin: origin ? { type: origin.type, location: origin.location } : { type: 'local' },
+      hash: hashTree(join(root, layered.get(name)!, name)),
+    };
+  }
+
+  return { version: 1, skills };
+}
+
+export function readLock(root: string): Lockfile | null {
+  const path = join(root, LOCK_FILE);
+  if (!existsSync(path)) return null;
+
+  try {
+    const lock = JSON.parse(readFileSync(path, 'utf-8'));
+    return { version: 1, skills: lock.skills ?? {} };
+  } catch (e) {
+    throw new Error(`Failed to parse ${LOCK_FILE}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+export function writeLock(root: string, lock: Lockfile): void {
+  const path = join(root, LOCK_FILE);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(lock, null, 2) + '\n');
+}
+
+/** Compare the layered sources against the lockfile. Throws if there is no lockfile. */
+export function verifyLock(root: string, sources: string[]): VerifyResult {
+  const lock = readLock(root);
+  if (!lock) {
+    throw new Error(`${LOCK_FILE} not found. Run "skillink lock" first.`);
+  }
+
+  const current = buildLock(root, sources).skills;
+  const result: VerifyResult = { added: [], removed: [], changed: [] };
+
+  for (const [name, entry] of Object.entries(current)) {
+    if (!lock.skills[name]) result.added.push(name);
+    else if (lock.skills[name].hash !== entry.hash) result.changed.push(name);
+  }
+  for (const name of Object.keys(lock.skills)) {
+    if (!current[name]) result.removed.push(name);
+  }
+
+  return result;
+}
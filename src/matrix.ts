@@ -0,0 +1,150 @@
+import type { StatusEntry } from './sync.ts';
+
+/** State of one skill in one agent, as shown by `status --verbose` */
+export type CellState =
+  | 'linked'
+  | 'copied'
+  | 'generated'
+  | 'stale'
+  | 'modified'
+  | 'unlinked'
+  | 'wrong'
+  | 'shadowed'
+  | 'dangling'
+  | 'notApplicable'
+  | 'ignored';
+
+export const CELL_SYMBOLS: Record<CellState, string> = {
+  linked: '●',
+  copied: '◆',
+  generated: '◇',
+  stale: '~',
+  modified: '*',
+  unlinked: '○',
+  wrong: '✗',
+  shadowed: '■',
+  dangling: '†',
+  notApplicable: '·',
+  ignored: '⊘',
+};
+
+export const CELL_LABELS: Record<CellState, string> = {
+  linked: 'linked',
+  copied: 'copy',
+  generated: 'rule',
+  stale: 'stale',
+  modified: 'modified copy',
+  unlinked: 'missing',
+  wrong: 'wrong target',
+  shadowed: 'real dir',
+  dangling: 'dangling',
+  notApplicable: 'not applicable',
+  ignored: 'ignored but linked',
+};
+
+/** Skills (rows) by agents (columns) */
+export interface Matrix {
+  skills: string[];
+  agents: string[];
+  /** cells[skill][agent]; absent when the agent has no entry for the skill */
+  cells: Record<string, Record<string, CellState>>;
+}
+
+/** Colors a symbol by its state; identity by default */
+export type Paint = (state: CellState, symbol: string) => string;
+
+/** Narrowest label column before skill names are cut */
+const MIN_LABEL_WIDTH = 12;
+
+export function buildMatrix(statuses: StatusEntry[]): Matrix {
+  const cells: Matrix['cells'] = {};
+  const states = Object.keys(CELL_SYMBOLS) as CellState[];
+
+  for (const status of statuses) {
+    for (const state of states) {
+      for (const skill of status[state]) {
+        (cells[skill] ??= {})[status.agent] = state;
+      }
+    }
+  }
+
+  return {
+    skills: Object.keys(cells).sort(),
+    agents: statuses.map((s) => s.agent),
+    cells,
+  };
+}
+
+/**
+ * Render the matrix as lines that fit in `width` columns. Agent names head
+ * the columns when they fit; otherwise columns are numbered with a key
+ * below, and if even that is too wide, agents are split over several
+ * tables. Long skill names are cut with an ellipsis.
+ */
+export function renderMatrix(matrix: Matrix, width: number, paint: Paint = (_, s) => s): string[] {
+  if (matrix.skills.length === 0 || matrix.agents.length === 0) return [];
+
+  const longest = Math.max(...matrix.skills.map((s) => s.length));
+  const labelWidth = Math.min(longest, Math.max(MIN_LABEL_WIDTH, Math.floor(width * 0.4)));
+  // Two-space indent, the label, then two spaces before each column
+  const room = width - 2 - labelWidth;
+
+  const named = matrix.agents.reduce((sum, a) => sum + a.length + 2, 0) <= room;
+  const headers = named ? matrix.agents : matrix.agents.map((_, i) => String(i + 1));
+  const columnWidth = (i: number) => (named ? headers[i].length : headers.at(-1)!.length);
+  const perTable = named
+    ? matrix.agents.length
+    : Math.max(1, Math.floor(room / (columnWidth(0) + 2)));
+
+  const lines: string[] = [];
+  for (let start = 0; start < matrix.agents.length; start += perTable) {
+    const columns = headers.map((_, i) => i).slice(start, start + perTable);
+    if (start > 0) lines.push('');
+    const header = columns.map((i) => `  ${headers[i].padEnd(columnWidth(i))}`).join('');
+    lines.push(`  ${''.padEnd(labelWidth)}${header}`.trimEnd());
+    for (const skill of matrix.skills) {
+      const label = skill.length > labelWidth ? `${skill.slice(0, labelWidth - 1)}…` : skill;
+      const row = columns.map((i) => {
+        const state = matrix.cells[skill][matrix.agents[i]];
+        const symbol = state ? paint(state, CELL_SYMBOLS[state]) : ' ';
+        return `  ${symbol}${' '.repeat(columnWidth(i) - 1)}`;
+      });
+      lines.push(`  ${label.padEnd(labelWidth)}${row.join('')}`.trimEnd());
+    }
+  }
+
+  if (!named) {
+    lines.push('');
+    lines.push(...wrap(matrix.agents.map((a, i) => `${i + 1} ${a}`), width));
+  }
+
+  const used = new Set(Object.values(matrix.cells).flatMap((row) => Object.values(row)));
+  const legend = (Object.keys(CELL_SYMBOLS) as CellState[])
+    .filter((state) => used.has(state))
+    .map((state) => `${paint(state, CELL_SYMBOLS[state])} ${CELL_LABELS[state]}`);
+  lines.push('');
+  lines.push(...wrap(legend, width));
+
+  return lines;
+}
+
+/** Join items with two spaces, breaking lines before `width` (ANSI colors not counted) */
+function wrap(items: string[], width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  let length = 0;
+
+  for (const item of items) {
+    const itemLength = item.replace(/\x1b\[[0-9;]*m/g, '').length;
+    if (line && 2 + length + 2 + itemLength > width) {
+      lines.push(`  ${line}`);
+      line = '';
+      length = 0;
+    }
+    line += (line ? '  ' : '') + item;
+    length += (length ? 2 : 0) + itemLength;
+  }
+  if (line) lines.push(`  ${line}`);
+
+  return lines;
+}
@@ -0,0 +1,146 @@
+import { cpSync, existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { formatScalar } from './frontmatter.ts';
+import { isValidSkillName, SKILL_FILE } from './skills.ts';
+
+/** Project-local skill templates, relative to project root */
+export const TEMPLATES_DIR = '.agents/templates';
+
+/** Optional folders a new skill can start with */
+export type SkillFolder = 'scripts' | 'references';
+
+export interface ScaffoldOptions {
+  description: string;
+  /** Built-in or project template (default: "default") */
+  template?: string;
+  folders?: SkillFolder[];
+}
+
+/**
+ * Built-in SKILL.md templates. Placeholders: {{name}}, {{description}} and
+ * {{title}}; in the frontmatter they are quoted as needed.
+ */
+const BUILTIN_TEMPLATES: Record<string, string> = {
+  default: `---
+name: {{name}}
+description: {{description}}
+---
+
+# {{title}}
+
+## When to use
+
+Describe the situations where this skill applies.
+
+## Instructions
+
+1. First step
+2. Second step
+
+## Examples
+
+Show a short example of the expected input and output.
+`,
+  minimal: `---
+name: {{name}}
+description: {{description}}
+---
+
+# {{title}}
+`,
+};
+
+/** Template names, project templates first; a project template overrides a built-in one */
+export function listTemplates(root: string): { name: string; builtin: boolean }[] {
+  const dir = join(root, TEMPLATES_DIR);
+  const project = existsSync(dir)
+    ? readdirSync(dir, { withFileTypes: true })
+        .filter((e) => e.isDirectory() && existsSync(join(dir, e.name, SKILL_FILE)))
+        .map((e) => e.name)
+    : [];
+
+  return [
+    ...project.map((name) => ({ name, builtin: false })),
+    ...Object.keys(BUILTIN_TEMPLATES)
+      .filter((name) => !project.includes(name))
+      .map((name) => ({ name, builtin: true })),
+  ];
+}
+
+/**
+ * Create <source>/<name>/ from a template and return its path.
+ * Project templates are copied whole; only their SKILL.md is filled in.
+ * Throws if the name is invalid, the skill exists or the template is unknown.
+ */
+export function scaffoldSkill(
+  root: string,
+  source: string,
+  name: string,
+  options: ScaffoldOptions,
+): string {
+  if (!isValidSkillName(name)) {
+    throw new Error(
+      `Invalid skill name "${name}": use lowercase letters, digits and hyphens (max 64)`,
+    );
+  }
+
+  const dir = join(root, source, name);
+  if (existsSync(dir)) {
+    throw new Error(`Skill "${name}" already exists in ${source}`);
+  }
+
+  const templateName = options.template ?? 'default';
+  const templateDir = join(root, TEMPLATES_DIR, templateName);
+  const isProject = existsSync(join(templateDir, SKILL_FILE));
+
+  if (!isProject && !BUILTIN_TEMPLATES[templateName]) {
+    const available = listTemplates(root).map((t) => t.name).join(', ');
+    throw new Error(`Unknown template "${templateName}" (available: ${available})`);
+  }
+
+  const template = isProject
+    ? readFileSync(join(templateDir, SKILL_FILE), 'utf-8')
+    : BUILTIN_TEMPLATES[templateName];
+
+  if (isProject) {
+    cpSync(templateDir, dir, { recursive: true });
+  } else {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  writeFileSync(
+    join(dir, SKILL_FILE),
+    fillTemplate(template, { name, description: options.description, title: toTitle(name) }),
+  );
+
+  for (const folder of options.folders ?? []) {
+    mkdirSync(join(dir, folder), { recursive: true });
+    // Keep empty folders in git
+    if (readdirSync(join(dir, folder)).length === 0) {
+      writeFileSync(join(dir, folder, '.gitkeep'), '');
+    }
+  }
+
+  return dir;
+}
+
+/** Replace {{key}} placeholders, quoting values inside the frontmatter block */
+function fillTemplate(template: string, values: Record<string, string>): string {
+  const match = template.match(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/);
+  const frontmatter = match ? match[0] : '';
+  const body = template.slice(frontmatter.length);
+
+  const fill = (text: string, quote: boolean) =>
+    text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+      key in values ? (quote ? formatScalar(values[key]) : values[key]) : placeholder,
+    );
+
+  return fill(frontmatter, true) + fill(body, false);
+}
+
+function toTitle(name: string): string {
+  return name
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
@@ -0,0 +1,283 @@
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { FrontmatterError, parseFrontmatter } from './frontmatter.ts';
+import { isIgnored, readIgnore } from './ignore.ts';
+import type {
+  FlattenScheme,
+  Skill,
+  SkillFrontmatter,
+  SkillIssue,
+  SkillTargeting,
+} from './types.ts';
+
+export const SKILL_FILE = 'SKILL.md';
+
+/** Spec limits for frontmatter fields */
+const NAME_RE = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 1024;
+
+/** Joins category and skill names in agent dirs (skill names can't contain it) */
+export const CATEGORY_SEPARATOR = '--';
+
+/**
+ * Discover all skill directories under the canonical source, as paths
+ * relative to it. Any directory with a SKILL.md is a skill; others are
+ * categories and are searched further. A top-level directory with no skill
+ * inside is still returned, so its missing SKILL.md gets reported.
+ * Skills matched by the source's .skillinkignore are left out.
+ */
+export function discoverSkills(root: string, source: string): string[] {
+  const rules = readIgnore(root, source);
+  return walkSkills(root, source).filter((id) => !isIgnored(rules, id));
+}
+
+/** Skills of the source that its .skillinkignore leaves out */
+export function findIgnoredSkills(root: string, source: string): string[] {
+  const rules = readIgnore(root, source);
+  return walkSkills(root, source).filter((id) => isIgnored(rules, id));
+}
+
+function walkSkills(root: string, source: string): string[] {
+  const skillsDir = join(root, source);
+  if (!existsSync(skillsDir)) {
+    throw new Error(`${source} does not exist in ${root}`);
+  }
+
+  const walk = (rel: string): string[] => {
+    const found: string[] = [];
+    for (const entry of readdirSync(join(skillsDir, rel), { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const id = rel ? `${rel}/${entry.name}` : entry.name;
+      if (existsSync(join(skillsDir, id, SKILL_FILE))) {
+        found.push(id);
+        continue;
+      }
+      const nested = walk(id);
+      found.push(...(nested.length > 0 || rel ? nested : [id]));
+    }
+    return found;
+  };
+
+  return walk('');
+}
+
+/** Category of a nested skill (`frontend/react-review` → `frontend`) */
+export function skillCategory(id: string): string | undefined {
+  const category = dirname(id);
+  return category === '.' ? undefined : category;
+}
+
+/**
+ * Name of a skill in the flat agent dirs: the category path joined with
+ * `--` (`frontend--react-review`), or only the leaf name (`react-review`).
+ */
+export function flattenName(id: string, scheme: FlattenScheme = 'category'): string {
+  return scheme === 'leaf' ? basename(id) : id.split('/').join(CATEGORY_SEPARATOR);
+}
+
+/** Skills that flatten to the same agent dir name, keyed by that name */
+export function findFlattenCollisions(
+  ids: string[],
+  scheme: FlattenScheme = 'category',
+): Map<string, string[]> {
+  const byName = new Map<string, string[]>();
+  for (const id of ids) {
+    const name = flattenName(id, scheme);
+    byName.set(name, [...(byName.get(name) ?? []), id]);
+  }
+  return new Map([...byName].filter(([, skills]) => skills.length > 1));
+}
+
+/**
+ * Load a skill directory and check its SKILL.md. `dirName` is the path
+ * relative to the source; "name" must match its last segment.
+ * Never throws for skill content problems — they are reported in `issues`.
+ */
+export function loadSkill(dir: string, dirName: string): Skill {
+  const file = join(dir, SKILL_FILE);
+  const skill: Skill = {
+    dirName,
+    dir,
+    file,
+    frontmatter: {},
+    body: '',
+    issues: [],
+  };
+
+  const issue = (message: string, line?: number, severity: SkillIssue['severity'] = 'error') =>
+    skill.issues.push({ skill: dirName, file, line, message, severity });
+
+  if (!existsSync(file)) {
+    issue(`Missing ${SKILL_FILE}`);
+    return skill;
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(file, 'utf-8');
+  } catch (e) {
+    issue(`Cannot read ${SKILL_FILE}: ${e instanceof Error ? e.message : e}`);
+    return skill;
+  }
+
+  let parsed;
+  try {
+    parsed = parseFrontmatter(content);
+  } catch (e) {
+    if (e instanceof FrontmatterError) {
+      issue(`Invalid frontmatter: ${e.message}`, e.line);
+      return skill;
+    }
+    throw e;
+  }
+
+  if (!parsed) {
+    skill.body = content;
+    issue('Missing frontmatter (expected a --- block at the top)', 1);
+    return skill;
+  }
+
+  skill.frontmatter = parsed.data as SkillFrontmatter;
+  skill.body = parsed.body;
+
+  const lineOf = (key: string) => findKeyLine(content, key);
+  const { name, description } = parsed.data;
+
+  if (name === undefined || name === null || name === '') {
+    issue('Missing "name"', 1);
+  } else if (typeof name !== 'string') {
+    issue('"name" must be a string', lineOf('name'));
+  } else {
+    if (name !== basename(dirName)) {
+      issue(
+        `"name" (${name}) does not match directory name (${basename(dirName)})`,
+        lineOf('name'),
+      );
+    }
+    if (!isValidSkillName(name)) {
+      issue(
+        `"name" should be lowercase letters, digits and hyphens (max ${MAX_NAME_LENGTH})`,
+        lineOf('name'),
+        'warning',
+      );
+    }
+  }
+
+  if (description === undefined) {
+    issue('Missing "description"', 1);
+  } else if (description === null) {
+    issue('Empty "description"', lineOf('description'));
+  } else if (typeof description !== 'string') {
+    issue('"description" must be a string', lineOf('description'));
+  } else if (description.trim() === '') {
+    issue('Empty "description"', lineOf('description'));
+  } else if (description.length > MAX_DESCRIPTION_LENGTH) {
+    issue(
+      `"description" is longer than ${MAX_DESCRIPTION_LENGTH} characters`,
+      lineOf('description'),
+      'warning',
+    );
+  }
+
+  for (const key of ['agents', 'exclude-agents']) {
+    const value = parsed.data[key];
+    if (
+      value !== undefined &&
+      typeof value !== 'string' &&
+      !(Array.isArray(value) && value.every((v) => typeof v === 'string'))
+    ) {
+      issue(`"${key}" must be a list of agent names`, lineOf(key));
+    }
+  }
+
+  return skill;
+}
+
+/** Load every skill in the source directory */
+export function loadSkills(root: string, source: string): Skill[] {
+  return discoverSkills(root, source).map((name) =>
+    loadSkill(join(root, source, name), name),
+  );
+}
+
+/** A skill with the source layer it comes from and the lower layers it overrides */
+export interface LayeredSkill {
+  skill: Skill;
+  source: string;
+  overrides: string[];
+}
+
+/**
+ * Load skills from sources ordered from lowest to highest precedence
+ * (e.g. a vendored pack, then the project's own skills). A skill in a
+ * later source replaces the one with the same path in earlier sources.
+ */
+export function loadLayeredSkills(root: string, sources: string[]): LayeredSkill[] {
+  const byId = new Map<string, LayeredSkill>();
+
+  for (const source of sources) {
+    for (const skill of loadSkills(root, source)) {
+      const lower = byId.get(skill.dirName);
+      byId.set(skill.dirName, {
+        skill,
+        source,
+        overrides: lower ? [...lower.overrides, lower.source] : [],
+      });
+    }
+  }
+
+  return [...byId.values()];
+}
+
+/** Skill names present in both sources (e.g. project and global scope) */
+export function findNameClashes(
+  a: { root: string; source: string },
+  b: { root: string; source: string },
+): string[] {
+  const list = (s: { root: string; source: string }) =>
+    existsSync(join(s.root, s.source)) ? discoverSkills(s.root, s.source) : [];
+  const names = new Set(list(b));
+  return list(a).filter((name) => names.has(name));
+}
+
+/** Spec naming rule: lowercase letters, digits and single hyphens, max 64 chars */
+export function isValidSkillName(name: string): boolean {
+  return NAME_RE.test(name) && name.length <= MAX_NAME_LENGTH;
+}
+
+/** A skill is valid when it has no error-level issues */
+export function isValidSkill(skill: Skill): boolean {
+  return !skill.issues.some((i) => i.severity === 'error');
+}
+
+/**
+ * Check whether a skill should be distributed to an agent.
+ * Project config overrides the skill's own frontmatter, field by field.
+ */
+export function appliesToAgent(
+  skill: Skill,
+  agent: string,
+  override?: SkillTargeting,
+): boolean {
+  const only = override?.agents ?? toList(skill.frontmatter.agents);
+  const excluded =
+    override?.excludeAgents ?? toList(skill.frontmatter['exclude-agents']);
+
+  if (only && !only.includes(agent)) return false;
+  if (excluded && excluded.includes(agent)) return false;
+  return true;
+}
+
+function toList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((v) => typeof v === 'string');
+  return undefined;
+}
+
+/** 1-based line of a top-level frontmatter key */
+function findKeyLine(content: string, key: string): number | undefined {
+  const lines = content.split(/\r?\n/);
+  const index = lines.findIndex((l) => l.startsWith(`${key}:`));
+  return index === -1 ? undefined : index + 1;
+}
@@ -0,0 +1,128 @@
+import { lstatSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { loadLayeredSkills, SKILL_FILE } from './skills.ts';
+import type { StatsThresholds } from './types.ts';
+
+/** Reference files listed per skill, largest first */
+const LARGEST_FILES = 3;
+
+export interface FileSize {
+  /** Path relative to the skill directory */
+  path: string;
+  bytes: number;
+}
+
+export interface SkillStats {
+  skill: string;
+  /** Source layer the skill comes from */
+  source: string;
+  files: number;
+  bytes: number;
+  descriptionTokens: number;
+  bodyTokens: number;
+  /** Largest files other than SKILL.md */
+  largest: FileSize[];
+}
+
+export interface StatsTotals {
+  skills: number;
+  files: number;
+  bytes: number;
+  descriptionTokens: number;
+  bodyTokens: number;
+}
+
+export interface StatsViolation {
+  limit: keyof StatsThresholds;
+  /** Absent for limits on the totals */
+  skill?: string;
+  value: number;
+  max: number;
+}
+
+export interface StatsReport {
+  skills: SkillStats[];
+  total: StatsTotals;
+  violations: StatsViolation[];
+}
+
+/**
+ * Rough token count: about four characters per token for English prose
+ * and Markdown. Good enough to compare skills and spot outliers.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Measure every skill of the sources (higher layers win) and check the thresholds */
+export function collectStats(
+  root: string,
+  sources: string[],
+  thresholds: StatsThresholds = {},
+): StatsReport {
+  const skills = loadLayeredSkills(root, sources).map(({ skill, source }): SkillStats => {
+    const files = listFiles(skill.dir);
+    const description = skill.frontmatter.description;
+    return {
+      skill: skill.dirName,
+      source,
+      files: files.length,
+      bytes: files.reduce((sum, f) => sum + f.bytes, 0),
+      descriptionTokens: typeof description === 'string' ? estimateTokens(description) : 0,
+      bodyTokens: estimateTokens(skill.body),
+      largest: files
+        .filter((f) => f.path !== SKILL_FILE)
+        .sort((a, b) => b.bytes - a.bytes || (a.path < b.path ? -1 : 1))
+        .slice(0, LARGEST_FILES),
+    };
+  });
+
+  const total: StatsTotals = {
+    skills: skills.length,
+    files: 0,
+    bytes: 0,
+    descriptionTokens: 0,
+    bodyTokens: 0,
+  };
+  for (const s of skills) {
+    total.files += s.files;
+    total.bytes += s.bytes;
+    total.descriptionTokens += s.descriptionTokens;
+    total.bodyTokens += s.bodyTokens;
+  }
+
+  const violations: StatsViolation[] = [];
+  const check = (limit: keyof StatsThresholds, value: number, skill?: string) => {
+    const max = thresholds[limit];
+    if (max !== undefined && value > max) {
+      violations.push({ limit, ...(skill ? { skill } : {}), value, max });
+    }
+  };
+  for (const s of skills) {
+    check('maxDescriptionTokens', s.descriptionTokens, s.skill);
+    check('maxBodyTokens', s.bodyTokens, s.skill);
+    check('maxSkillBytes', s.bytes, s.skill);
+  }
+  check('maxTotalDescriptionTokens', total.descriptionTokens);
+
+  return { skills, total, violations };
+}
+
+/** Regular files under dir with their sizes; symlinks are not followed */
+function listFiles(dir: string): FileSize[] {
+  const files: FileSize[] = [];
+
+  const walk = (rel: string) => {
+    for (const entry of readdirSync(join(dir, rel), { withFileTypes: true })) {
+      const path = rel ? `${rel}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        walk(path);
+      } else if (entry.isFile()) {
+        files.push({ path, bytes: lstatSync(join(dir, path)).size });
+      }
+    }
+  };
+
+  walk('');
+  return files;
+}
@@ -1,25 +1,77 @@
+import { existsSync, lstatSync, readdirSync, readFileSync, readlinkSync, statSync } from 'fs';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { createChangeset, type Changeset } from './changeset.ts';
+import { DEFAULT_SOURCE } from './config.ts';
 import {
-  existsSync,
-  lstatSync,
-  mkdirSync,
-  readdirSync,
-  readlinkSync,
-  symlinkSync,
-  unlinkSync,
-} from 'fs';
-import { join, relative } from 'path';
-import type { SyncResult, SyncEntry } from './types.ts';
-
-const CANONICAL_SOURCE = '.agents/skills';
+  getCopyState,
+  hashTree,
+  manifestKey,
+  readManifest,
+  writeManifest,
+  type CopyManifest,
+} from './copy.ts';
+import { matchGlob } from './glob.ts';
+import type { JournalRecorder } from './journal.ts';
+import {
+  appliesToAgent,
+  CATEGORY_SEPARATOR,
+  findFlattenCollisions,
+  findIgnoredSkills,
+  flattenName,
+  isValidSkill,
+  loadLayeredSkills,
+  SKILL_FILE,
+  type LayeredSkill,
+} from './skills.ts';
+import { generatedSkill, renderRule, ruleFileName } from './transform.ts';
+import type {
+  DistributionMode,
+  FlattenScheme,
+  RuleFormat,
+  Skill,
+  SkillTargeting,
+  SyncResult,
+  SyncEntry,
+} from './types.ts';
 
 interface AgentTarget {
   skillsDir: string;
+  /** Overrides SyncOptions.mode for this agent */
+  mode?: DistributionMode;
+  /** Rule format for the transform mode */
+  format?: RuleFormat;
 }
 
 export interface SyncOptions {
   agents: Record<string, AgentTarget>;
   filterAgents?: string[];
+  /** Only touch these skills, by their name in the source or in agent dirs */
+  filterSkills?: string[];
+  /** Leave alone skills matching any of these globs (source path or agent dir name) */
+  exclude?: string[];
+  /** Remove what earlier syncs made for skills now in a .skillinkignore */
+  pruneIgnored?: boolean;
   dryRun?: boolean;
+  /** Canonical skill source, relative to root (defaults to .agents/skills) */
+  source?: string;
+  /** Lower-precedence sources, lowest first; `source` overrides their skills */
+  layers?: string[];
+  /** Remove dangling symlinks into the source during sync (default: true) */
+  prune?: boolean;
+  /** How skills are distributed (default: symlink) */
+  mode?: DistributionMode;
+  /** Overwrite or remove copies that were edited locally */
+  force?: boolean;
+  /** Per-skill agent targeting from project config (overrides frontmatter) */
+  skills?: Record<string, SkillTargeting>;
+  /** Undo every change made in the run if any entry fails */
+  atomic?: boolean;
+  /** Distribute skills as `<prefix>-<skill>` (workspace packages gathered into the root) */
+  prefix?: string;
+  /** How nested skills are named in agent dirs (default: category) */
+  flatten?: FlattenScheme;
+  /** Record the run's changes in this journal run, for undo */
+  journal?: JournalRecorder;
 }
 
 export interface StatusEntry {
@@ -28,29 +80,70 @@ export interface StatusEntry {
   linked: string[];
   unlinked: string[];
   wrong: string[];
-}
-
-/** Discover all skill directories under .agents/skills/ */
-function discoverSkills(root: string): string[] {
-  const skillsDir = join(root, CANONICAL_SOURCE);
-  if (!existsSync(skillsDir)) {
-    throw new Error(`${CANONICAL_SOURCE} does not exist in ${root}`);
-  }
-
-  return readdirSync(skillsDir, { withFileTypes: true })
-    .filter((e) => e.isDirectory())
-    .map((e) => e.name);
+  /** Copies matching their source */
+  copied: string[];
+  /** Copies whose source has changed since they were made */
+  stale: string[];
+  /** Copies edited in the agent dir */
+  modified: string[];
+  /** Rule files rendered from their current source (transform mode) */
+  generated: string[];
+  /** Skills targeted away from this agent */
+  notApplicable: string[];
+  /** Links into the source whose skill no longer exists */
+  dangling: string[];
+  /** Real directories skillink did not create, including ones shadowing a skill */
+  unmanaged: string[];
+  /** Skills whose place is taken by a real directory or hand-written rule (also in `unmanaged`) */
+  shadowed: string[];
+  /** Files, and links to anything but a project skill; shown by `status --verbose` */
+  foreign: string[];
+  /** Skills in a .skillinkignore that are still linked, copied or generated */
+  ignored: string[];
+  /** Source layer of each skill present in the agent dir (layered sources only) */
+  layers?: Record<string, string>;
 }
 
 /**
- * Sync skills from .agents/skills/ to target agents via symlinks.
+ * Sync skills from the canonical source to target agents via symlinks.
  *
  * For each non-universal agent, creates:
- *   <agent.skillsDir>/<skill-name> → relative symlink to .agents/skills/<skill-name>
+ *   <agent.skillsDir>/<skill-name> → relative symlink to <source>/<skill-name>
+ *
+ * Nested skills (<source>/<category>/<skill-name>) get a flat name as set by
+ * `flatten`; skills whose flat names collide are skipped. With `layers`, a
+ * skill is linked from the highest-precedence source that has it.
+ *
+ * In copy mode the skill tree is copied instead and its hash recorded in the
+ * copy manifest; only stale copies are rewritten, and locally modified copies
+ * are left alone unless `force` is set.
+ *
+ * Skills whose SKILL.md has errors are not linked; they are reported in
+ * `skipped` with the first problem as the reason. Skills targeted away from
+ * an agent (`agents` / `exclude-agents`) are skipped for it, and links left
+ * over from before they were retargeted are pruned.
+ *
+ * Unless `prune` is false, dangling symlinks into the source (left behind by
+ * deleted or renamed skills) are removed and reported in `removed`.
+ *
+ * Skills in a source's .skillinkignore are not distributed. What earlier
+ * syncs made for them is reported in `skipped`, or removed with `pruneIgnored`.
+ *
+ * A file system error fails only its own entry: whatever that entry had
+ * already changed is undone and it is reported in `failed`. With `atomic`,
+ * any failure rolls back the whole run.
  */
 export function syncSkills(root: string, options: SyncOptions): SyncResult {
-  const skills = discoverSkills(root);
-  const result: SyncResult = { created: [], skipped: [], failed: [] };
+  const sources = sourceLayers(options);
+  const skills = loadLayeredSkills(root, sources);
+  const manifest = readManifest(root);
+  const result: SyncResult = { created: [], removed: [], skipped: [], failed: [] };
+  const changes = createChangeset();
+  const collisions = findFlattenCollisions(
+    skills.map((s) => s.skill.dirName),
+    options.flatten,
+  );
+  const ignored = ignoredSkills(root, sources, skills);
 
   const targetAgents = options.filterAgents
     ? Object.entries(options.agents).filter(([name]) =>
@@ -60,59 +153,582 @@ export function syncSkills(root: string, options: SyncOptions): SyncResult {
 
   for (const [agentName, agentConfig] of targetAgents) {
     const agentSkillsDir = join(root, agentConfig.skillsDir);
+    const mode = agentConfig.mode ?? options.mode ?? 'symlink';
+    const format = mode === 'transform' ? requireFormat(agentName, agentConfig) : undefined;
 
-    for (const skill of skills) {
-      const source = join(root, CANONICAL_SOURCE, skill);
-      const target = join(agentSkillsDir, skill);
-      const entry: SyncEntry = { skill, agent: agentName, source, target };
-
-      // Check if target already exists
-      if (existsSync(target) || isSymlink(target)) {
-        if (isSymlink(target)) {
-          const currentTarget = readlinkSync(target);
-          const expectedTarget = relative(agentSkillsDir, source);
-
-          if (currentTarget === expectedTarget) {
-            // Correct symlink already exists
-            result.skipped.push({ ...entry, reason: 'already linked' });
-            continue;
-          }
+    for (const { skill: loaded, source } of skills) {
+      if (!isSelected(loaded.dirName, options)) continue;
 
-          // Wrong symlink — remove and recreate
-          if (!options.dryRun) {
-            unlinkSync(target);
+      const skill = targetName(loaded.dirName, options);
+      const skillSource = loaded.dir;
+      const target = join(agentSkillsDir, format ? ruleFileName(format, skill) : skill);
+      const entry: SyncEntry = {
+        skill,
+        agent: agentName,
+        source: skillSource,
+        target,
+      };
+
+      if (!isValidSkill(loaded)) {
+        const error = loaded.issues.find((i) => i.severity === 'error')!;
+        result.skipped.push({ ...entry, reason: `invalid: ${error.message}` });
+        continue;
+      }
+
+      // Skills that would share an agent dir entry are left out until renamed
+      const clash = collisions.get(flattenName(loaded.dirName, options.flatten));
+      if (clash) {
+        const others = clash.filter((id) => id !== loaded.dirName).join(', ');
+        result.skipped.push({ ...entry, reason: `name collision with ${others}` });
+        continue;
+      }
+
+      attempt(entry, changes, result, () => {
+        if (!appliesToAgent(loaded, agentName, options.skills?.[loaded.dirName])) {
+          removeInapplicable(root, sources, loaded.dirName, entry, manifest, changes, result, options);
+          return;
+        }
+
+        if (mode === 'copy') {
+          syncCopy(root, source, entry, manifest, changes, result, options);
+          return;
+        }
+
+        if (format) {
+          syncRule(sources, source, loaded, format, entry, changes, result, options);
+          return;
+        }
+
+        // Check if target already exists
+        if (existsSync(target) || isSymlink(target)) {
+          if (isSymlink(target)) {
+            const currentTarget = readlinkSync(target);
+            const expectedTarget = relative(agentSkillsDir, skillSource);
+
+            if (currentTarget === expectedTarget) {
+              // Correct symlink already exists
+              result.skipped.push({ ...entry, reason: 'already linked' });
+              return;
+            }
+
+            // Wrong symlink — remove and recreate
+            if (!options.dryRun) {
+              changes.unlink(target);
+            }
+          } else if (manifest.copies[manifestKey(root, target)]) {
+            // Copy made by an earlier copy-mode sync — replace it with a link
+            if (!removeCopy(root, entry, manifest, changes, result, options)) return;
+          } else {
+            // Real directory — don't touch it (hybrid strategy)
+            result.skipped.push({
+              ...entry,
+              reason: 'real directory exists, skipping',
+            });
+            return;
           }
-        } else {
-          // Real directory — don't touch it (hybrid strategy)
-          result.skipped.push({
-            ...entry,
-            reason: 'real directory exists, skipping',
-          });
-          continue;
         }
-      }
 
-      // Create the symlink
-      const relativeSource = relative(agentSkillsDir, source);
+        // Create the symlink
+        const relativeSource = relative(agentSkillsDir, skillSource);
+
+        if (!options.dryRun) {
+          changes.symlink(relativeSource, target);
+        }
+
+        result.created.push(entry);
+      });
+    }
+
+    for (const { id, source } of ignored) {
+      if (!isSelected(id, options)) continue;
+
+      const skill = targetName(id, options);
+      const entry: SyncEntry = {
+        skill,
+        agent: agentName,
+        source: join(root, source, id),
+        target: join(agentSkillsDir, format ? ruleFileName(format, skill) : skill),
+      };
+
+      attempt(entry, changes, result, () => {
+        if (options.pruneIgnored) {
+          removeManaged(root, sources, id, entry, 'ignored', manifest, changes, result, options);
+        } else if (isManaged(root, sources, id, entry.target, manifest)) {
+          result.skipped.push({ ...entry, reason: 'ignored but still linked' });
+        }
+      });
+    }
+
+    if (options.prune !== false) {
+      // Ignored skills still exist, so their entries aren't pruned as orphans
+      const valid = [
+        ...skills.filter((s) => isValidSkill(s.skill)).map((s) => s.skill.dirName),
+        ...ignored.map((s) => s.id),
+      ];
+      pruneRules(root, sources, agentName, agentSkillsDir, valid, changes, result, options.dryRun);
+      pruneDangling(root, sources, agentName, agentSkillsDir, changes, result, options.dryRun);
+      const names = [...skills.map((s) => s.skill.dirName), ...ignored.map((s) => s.id)].map(
+        (id) => targetName(id, options),
+      );
+      pruneCopies(root, agentName, names, manifest, changes, result, options);
+    }
+  }
+
+  return finish(root, manifest, changes, result, options);
+}
+
+/** Name a skill gets in agent dirs */
+function targetName(skill: string, options: SyncOptions): string {
+  const name = flattenName(skill, options.flatten);
+  return options.prefix ? `${options.prefix}-${name}` : name;
+}
+
+/**
+ * Inverse of targetName, for entries found in an agent dir. Leaf names
+ * can't be mapped back to their category and are returned as is.
+ */
+function sourceName(name: string, options: SyncOptions): string {
+  const unprefixed =
+    options.prefix && name.startsWith(`${options.prefix}-`)
+      ? name.slice(options.prefix.length + 1)
+      : name;
+  return options.flatten === 'leaf'
+    ? unprefixed
+    : unprefixed.split(CATEGORY_SEPARATOR).join('/');
+}
+
+/** Whether --skill and --exclude leave a skill in the run */
+function isSelected(
+  skill: string,
+  options: SyncOptions,
+  name = targetName(skill, options),
+): boolean {
+  if (
+    options.filterSkills &&
+    !options.filterSkills.some((f) => f === skill || targetName(f, options) === name)
+  ) {
+    return false;
+  }
+  return !options.exclude?.some((glob) => matchGlob(glob, skill) || matchGlob(glob, name));
+}
+
+/** Skills ignored in some layer that no other layer provides, with the highest such layer */
+function ignoredSkills(
+  root: string,
+  sources: string[],
+  skills: LayeredSkill[],
+): { id: string; source: string }[] {
+  const present = new Set(skills.map((s) => s.skill.dirName));
+  const ignored = new Map<string, string>();
+  for (const source of sources) {
+    for (const id of findIgnoredSkills(root, source)) {
+      if (!present.has(id)) ignored.set(id, source);
+    }
+  }
+  return [...ignored].map(([id, source]) => ({ id, source }));
+}
+
+/** Source directories, lowest precedence first */
+export function sourceLayers(options: SyncOptions): string[] {
+  return [...(options.layers ?? []), options.source ?? DEFAULT_SOURCE];
+}
 
-      if (!options.dryRun) {
-        mkdirSync(agentSkillsDir, { recursive: true });
-        symlinkSync(relativeSource, target, 'dir');
+/** The skill a rule file was generated from, if skillink rendered it from any of the sources */
+function ownRule(file: string, sources: string[]): string | null {
+  for (const source of sources) {
+    const skill = generatedSkill(file, source);
+    if (skill !== null) return skill;
+  }
+  return null;
+}
+
+/** Check if a symlink points into any of the sources */
+function pointsIntoAny(root: string, link: string, sources: string[]): boolean {
+  return sources.some((source) => pointsInto(link, join(root, source)));
+}
+
+function requireFormat(agentName: string, agent: AgentTarget): RuleFormat {
+  if (!agent.format) {
+    throw new Error(`Agent "${agentName}" uses mode "transform" but has no format`);
+  }
+  return agent.format;
+}
+
+/**
+ * Run one entry's changes. On failure, undo what it already changed and
+ * record it in `failed` so the rest of the run can continue.
+ */
+function attempt(
+  entry: SyncEntry,
+  changes: Changeset,
+  result: SyncResult,
+  run: () => void,
+): void {
+  const mark = changes.size;
+  try {
+    run();
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    try {
+      changes.rollback(mark);
+    } catch (rollbackError) {
+      result.failed.push({
+        ...entry,
+        reason: `${reason} (${rollbackError instanceof Error ? rollbackError.message : rollbackError})`,
+      });
+      return;
+    }
+    result.failed.push({ ...entry, reason });
+  }
+}
+
+/**
+ * Roll back everything if the run is atomic and something failed; otherwise
+ * save the manifest and, with `journal`, record the changes for undo
+ */
+function finish(
+  root: string,
+  manifest: CopyManifest,
+  changes: Changeset,
+  result: SyncResult,
+  options: SyncOptions,
+): SyncResult {
+  try {
+    if (options.dryRun) return result;
+
+    if (options.atomic && result.failed.length > 0) {
+      changes.rollback();
+      result.rolledBack = true;
+      return result;
+    }
+
+    const before = readManifest(root).copies;
+    writeManifest(root, manifest);
+    options.journal?.record(root, changes.entries(), before, manifest.copies);
+    return result;
+  } finally {
+    changes.dispose();
+  }
+}
+
+/** Skip a skill that doesn't target this agent, pruning what an earlier sync left */
+function removeInapplicable(
+  root: string,
+  sources: string[],
+  skill: string,
+  entry: SyncEntry,
+  manifest: CopyManifest,
+  changes: Changeset,
+  result: SyncResult,
+  options: SyncOptions,
+): void {
+  const reason = `not applicable to ${entry.agent}`;
+
+  if (
+    options.prune === false ||
+    !removeManaged(root, sources, skill, entry, reason, manifest, changes, result, options)
+  ) {
+    result.skipped.push({ ...entry, reason });
+  }
+}
+
+/** Whether target is a link, copy or rule skillink made for the skill */
+function isManaged(
+  root: string,
+  sources: string[],
+  skill: string,
+  target: string,
+  manifest: CopyManifest,
+): boolean {
+  return (
+    (isSymlink(target) && pointsIntoAny(root, target, sources)) ||
+    (existsSync(target) && !!manifest.copies[manifestKey(root, target)]) ||
+    ownRule(target, sources) === skill
+  );
+}
+
+/**
+ * Remove the link, copy or rule an earlier sync made for a skill, reporting
+ * it with `reason`. Returns false when there is none.
+ */
+function removeManaged(
+  root: string,
+  sources: string[],
+  skill: string,
+  entry: SyncEntry,
+  reason: string,
+  manifest: CopyManifest,
+  changes: Changeset,
+  result: SyncResult,
+  options: SyncOptions,
+): boolean {
+  if (isSymlink(entry.target) && pointsIntoAny(root, entry.target, sources)) {
+    if (!options.dryRun) {
+      changes.unlink(entry.target);
+    }
+    result.removed.push({ ...entry, reason });
+    return true;
+  }
+
+  if (existsSync(entry.target) && manifest.copies[manifestKey(root, entry.target)]) {
+    if (removeCopy(root, entry, manifest, changes, result, options)) {
+      result.removed.push({ ...entry, reason });
+    }
+    return true;
+  }
+
+  if (ownRule(entry.target, sources) === skill) {
+    if (!options.dryRun) {
+      changes.remove(entry.target);
+    }
+    result.removed.push({ ...entry, reason });
+    return true;
+  }
+
+  return false;
+}
+
+/** Copy-mode sync of a single skill into an agent dir */
+function syncCopy(
+  root: string,
+  source: string,
+  entry: SyncEntry,
+  manifest: CopyManifest,
+  changes: Changeset,
+  result: SyncResult,
+  options: SyncOptions,
+): void {
+  const key = manifestKey(root, entry.target);
+  const record = manifest.copies[key];
+
+  if (isSymlink(entry.target)) {
+    // Switching from symlink mode — the link is replaced by a copy
+    if (!options.dryRun) {
+      changes.unlink(entry.target);
+    }
+  } else if (existsSync(entry.target)) {
+    if (!record) {
+      result.skipped.push({ ...entry, reason: 'real directory exists, skipping' });
+      return;
+    }
+
+    const state = getCopyState(record, entry.source, entry.target);
+    if (state === 'up-to-date') {
+      result.skipped.push({ ...entry, reason: 'copy up to date' });
+      return;
+    }
+    if (state === 'modified' && !options.force) {
+      result.skipped.push({
+        ...entry,
+        reason: 'copy modified locally, use --force to overwrite',
+      });
+      return;
+    }
+  }
+
+  if (!options.dryRun) {
+    changes.copy(entry.source, entry.target);
+    manifest.copies[key] = {
+      skill: entry.skill,
+      agent: entry.agent,
+      source,
+      hash: hashTree(entry.source),
+    };
+  }
+
+  result.created.push({ ...entry, reason: record ? 'copy updated' : 'copied' });
+}
+
+/** Transform-mode sync: render the skill into the agent's rule format */
+function syncRule(
+  sources: string[],
+  source: string,
+  skill: Skill,
+  format: RuleFormat,
+  entry: SyncEntry,
+  changes: Changeset,
+  result: SyncResult,
+  options: SyncOptions,
+): void {
+  const content = renderRule(format, skill, source);
+  const exists = existsSync(entry.target) || isSymlink(entry.target);
+
+  if (exists) {
+    if (ownRule(entry.target, sources) !== skill.dirName) {
+      // A hand-written rule with the same name — don't touch it
+      result.skipped.push({ ...entry, reason: 'file exists, skipping' });
+      return;
+    }
+    if (readFileSync(entry.target, 'utf-8') === content) {
+      result.skipped.push({ ...entry, reason: 'rule up to date' });
+      return;
+    }
+  }
+
+  if (!options.dryRun) {
+    changes.writeFile(entry.target, content);
+  }
+
+  result.created.push({ ...entry, reason: exists ? 'rule updated' : 'generated' });
+}
+
+/** Remove rule files generated from skills that are gone or no longer valid */
+function pruneRules(
+  root: string,
+  sources: string[],
+  agentName: string,
+  agentSkillsDir: string,
+  skills: string[],
+  changes: Changeset,
+  result: SyncResult,
+  dryRun?: boolean,
+): void {
+  if (!isDirectory(agentSkillsDir)) return;
+
+  for (const name of readdirSync(agentSkillsDir)) {
+    const target = join(agentSkillsDir, name);
+    const skill = ownRule(target, sources);
+    if (skill === null || skills.includes(skill)) continue;
+
+    const entry: SyncEntry = {
+      skill,
+      agent: agentName,
+      source: join(root, sources[sources.length - 1], skill),
+      target,
+      reason: 'source removed',
+    };
+
+    attempt(entry, changes, result, () => {
+      if (!dryRun) {
+        changes.remove(target);
       }
 
-      result.created.push(entry);
+      result.removed.push(entry);
+    });
+  }
+}
+
+/**
+ * Remove a managed copy, unless it was modified locally and `force` is off.
+ * Returns false (and records a skip) when the copy is kept.
+ */
+function removeCopy(
+  root: string,
+  entry: SyncEntry,
+  manifest: CopyManifest,
+  changes: Changeset,
+  result: SyncResult,
+  options: SyncOptions,
+): boolean {
+  const key = manifestKey(root, entry.target);
+  const record = manifest.copies[key];
+
+  if (
+    !options.force &&
+    getCopyState(record, entry.source, entry.target) === 'modified'
+  ) {
+    result.skipped.push({
+      ...entry,
+      reason: 'copy modified locally, use --force to remove',
+    });
+    return false;
+  }
+
+  if (!options.dryRun) {
+    changes.remove(entry.target);
+    delete manifest.copies[key];
+  }
+
+  return true;
+}
+
+/** Remove managed copies of skills that no longer exist in the source */
+function pruneCopies(
+  root: string,
+  agentName: string,
+  skills: string[],
+  manifest: CopyManifest,
+  changes: Changeset,
+  result: SyncResult,
+  options: SyncOptions,
+): void {
+  const sources = sourceLayers(options);
+  const source = options.source ?? DEFAULT_SOURCE;
+
+  for (const [key, record] of Object.entries(manifest.copies)) {
+    if (record.agent !== agentName || skills.includes(record.skill)) continue;
+    // Copies from another source (e.g. a workspace package) are not ours to prune
+    if (record.source !== undefined && !sources.includes(record.source)) continue;
+
+    const target = join(root, key);
+    if (!existsSync(target)) {
+      if (!options.dryRun) delete manifest.copies[key];
+      continue;
     }
+
+    const entry: SyncEntry = {
+      skill: record.skill,
+      agent: agentName,
+      source: join(root, record.source ?? source, sourceName(record.skill, options)),
+      target,
+    };
+
+    attempt(entry, changes, result, () => {
+      if (removeCopy(root, entry, manifest, changes, result, options)) {
+        result.removed.push({ ...entry, reason: 'source removed' });
+      }
+    });
   }
+}
+
+/** Remove symlinks in an agent dir that point into the source but resolve to nothing */
+function pruneDangling(
+  root: string,
+  sources: string[],
+  agentName: string,
+  agentSkillsDir: string,
+  changes: Changeset,
+  result: SyncResult,
+  dryRun?: boolean,
+): void {
+  if (!isDirectory(agentSkillsDir)) return;
+
+  for (const name of readdirSync(agentSkillsDir)) {
+    const target = join(agentSkillsDir, name);
+    if (!isSymlink(target) || existsSync(target)) continue;
+    if (!pointsIntoAny(root, target, sources)) continue;
+
+    const entry: SyncEntry = {
+      skill: name,
+      agent: agentName,
+      source: resolve(agentSkillsDir, readlinkSync(target)),
+      target,
+      reason: 'dangling',
+    };
+
+    attempt(entry, changes, result, () => {
+      if (!dryRun) {
+        changes.unlink(target);
+      }
 
-  return result;
+      result.removed.push(entry);
+    });
+  }
 }
 
 /**
  * Clean symlinks created by skillink.
- * Only removes symlinks that point back to .agents/skills/.
+ * Only removes symlinks that point back to the canonical source, and copies
+ * recorded in the copy manifest (locally modified ones need `force`).
+ * Everything removed is reported in `removed`; `created` stays empty.
+ * Failures are handled per entry, as in syncSkills.
  */
 export function cleanSkills(root: string, options: SyncOptions): SyncResult {
-  const result: SyncResult = { created: [], skipped: [], failed: [] };
+  const sources = sourceLayers(options);
+  const source = options.source ?? DEFAULT_SOURCE;
+  const manifest = readManifest(root);
+  const result: SyncResult = { created: [], removed: [], skipped: [], failed: [] };
+  const changes = createChangeset();
 
   const targetAgents = options.filterAgents
     ? Object.entries(options.agents).filter(([name]) =>
@@ -123,7 +739,7 @@ export function cleanSkills(root: string, options: SyncOptions): SyncResult {
   for (const [agentName, agentConfig] of targetAgents) {
     const agentSkillsDir = join(root, agentConfig.skillsDir);
 
-    if (!existsSync(agentSkillsDir)) {
+    if (!isDirectory(agentSkillsDir)) {
       continue;
     }
 
@@ -131,47 +747,75 @@ export function cleanSkills(root: string, options: SyncOptions): SyncResult {
 
     for (const entry of entries) {
       const target = join(agentSkillsDir, entry.name);
+      // Rule files are named after their skill plus the format's extension
+      const generated = ownRule(target, sources);
+      const skill = generated ?? sourceName(entry.name, options);
+
+      // With a prefix, other entries belong to other sources sharing the dir
+      if (generated === null && options.prefix && skill === entry.name) {
+        continue;
+      }
+      if (!isSelected(skill, options, entry.name)) {
+        continue;
+      }
+
       const syncEntry: SyncEntry = {
-        skill: entry.name,
+        skill: generated !== null ? targetName(generated, options) : entry.name,
         agent: agentName,
-        source: join(root, CANONICAL_SOURCE, entry.name),
+        source: join(root, source, skill),
         target,
       };
 
-      if (!isSymlink(target)) {
-        result.skipped.push({ ...syncEntry, reason: 'not a symlink, preserving' });
-        continue;
-      }
+      attempt(syncEntry, changes, result, () => {
+        if (generated !== null) {
+          if (!options.dryRun) {
+            changes.remove(target);
+          }
+          result.removed.push({ ...syncEntry, reason: 'generated' });
+          return;
+        }
 
-      // Only remove symlinks that point to our canonical source
-      const linkTarget = readlinkSync(target);
-      const resolvedTarget = join(agentSkillsDir, linkTarget);
-      const canonicalDir = join(root, CANONICAL_SOURCE);
+        if (!isSymlink(target)) {
+          const record = manifest.copies[manifestKey(root, target)];
+          if (!record) {
+            result.skipped.push({ ...syncEntry, reason: 'not a symlink, preserving' });
+          } else if (record.source !== undefined && !sources.includes(record.source)) {
+            result.skipped.push({ ...syncEntry, reason: 'copy of another source, preserving' });
+          } else if (removeCopy(root, syncEntry, manifest, changes, result, options)) {
+            result.removed.push({ ...syncEntry, reason: 'copy' });
+          }
+          return;
+        }
 
-      if (!resolvedTarget.startsWith(canonicalDir)) {
-        result.skipped.push({
-          ...syncEntry,
-          reason: 'symlink points elsewhere, preserving',
-        });
-        continue;
-      }
+        // Only remove symlinks that point into one of our sources
+        if (!pointsIntoAny(root, target, sources)) {
+          result.skipped.push({
+            ...syncEntry,
+            reason: 'symlink points elsewhere, preserving',
+          });
+          return;
+        }
 
-      if (!options.dryRun) {
-        unlinkSync(target);
-      }
+        if (!options.dryRun) {
+          changes.unlink(target);
+        }
 
-      result.created.push(syncEntry); // "created" = "removed" in clean context
+        result.removed.push({ ...syncEntry, reason: 'symlink' });
+      });
     }
   }
 
-  return result;
+  return finish(root, manifest, changes, result, options);
 }
 
 /**
  * Get distribution status for each agent.
  */
 export function getStatus(root: string, options: SyncOptions): StatusEntry[] {
-  const skills = discoverSkills(root);
+  const sources = sourceLayers(options);
+  const skills = loadLayeredSkills(root, sources);
+  const ignoredIds = ignoredSkills(root, sources, skills).map((s) => s.id);
+  const manifest = readManifest(root);
   const statuses: StatusEntry[] = [];
 
   const targetAgents = options.filterAgents
@@ -185,46 +829,164 @@ export function getStatus(root: string, options: SyncOptions): StatusEntry[] {
     const linked: string[] = [];
     const unlinked: string[] = [];
     const wrong: string[] = [];
+    const copied: string[] = [];
+    const stale: string[] = [];
+    const modified: string[] = [];
+    const notApplicable: string[] = [];
+    const dangling: string[] = [];
+    const unmanaged: string[] = [];
+    const shadowed: string[] = [];
+    const foreign: string[] = [];
+    const ignored: string[] = [];
+    const generated: string[] = [];
+    const layers: Record<string, string> = {};
+    const mode = agentConfig.mode ?? options.mode ?? 'symlink';
+    const format = mode === 'transform' ? requireFormat(agentName, agentConfig) : undefined;
+
+    for (const { skill: loaded, source } of skills) {
+      if (!isSelected(loaded.dirName, options)) continue;
+
+      const skill = targetName(loaded.dirName, options);
+      const skillSource = loaded.dir;
+      // Up-to-date entries, noting the layer they come from
+      const present = (list: string[]) => {
+        list.push(skill);
+        layers[skill] = source;
+      };
+      if (!appliesToAgent(loaded, agentName, options.skills?.[loaded.dirName])) {
+        notApplicable.push(skill);
+        continue;
+      }
+
+      if (format) {
+        const file = join(agentSkillsDir, ruleFileName(format, skill));
+        if (!existsSync(file)) {
+          unlinked.push(skill);
+        } else if (ownRule(file, sources) !== loaded.dirName) {
+          unmanaged.push(skill);
+          shadowed.push(skill);
+        } else if (readFileSync(file, 'utf-8') === renderRule(format, loaded, source)) {
+          present(generated);
+        } else {
+          stale.push(skill);
+        }
+        continue;
+      }
 
-    for (const skill of skills) {
       const target = join(agentSkillsDir, skill);
-      const expectedTarget = relative(
-        agentSkillsDir,
-        join(root, CANONICAL_SOURCE, skill),
-      );
+      const expectedTarget = relative(agentSkillsDir, skillSource);
 
       if (isSymlink(target)) {
         const actual = readlinkSync(target);
         if (actual === expectedTarget) {
-          linked.push(skill);
+          present(linked);
         } else {
           wrong.push(skill);
         }
+      } else if (existsSync(target) && manifest.copies[manifestKey(root, target)]) {
+        const state = getCopyState(
+          manifest.copies[manifestKey(root, target)],
+          skillSource,
+          target,
+        );
+        if (state === 'up-to-date') present(copied);
+        else if (state === 'stale') stale.push(skill);
+        else modified.push(skill);
       } else if (existsSync(target)) {
-        // Real directory — treat as "linked" (has content)
-        linked.push(skill);
+        // Real directory shadowing the skill — left alone by sync
+        unmanaged.push(skill);
+        shadowed.push(skill);
       } else {
         unlinked.push(skill);
       }
     }
 
+    for (const id of ignoredIds) {
+      if (!isSelected(id, options)) continue;
+      const skill = targetName(id, options);
+      const target = join(agentSkillsDir, format ? ruleFileName(format, skill) : skill);
+      if (isManaged(root, sources, id, target, manifest)) ignored.push(skill);
+    }
+
+    // Entries in the agent dir that don't correspond to a source skill
+    if (isDirectory(agentSkillsDir)) {
+      const known = new Set([...skills.map((s) => s.skill.dirName), ...ignoredIds]);
+      const names = new Set(skills.map((s) => targetName(s.skill.dirName, options)));
+      for (const entry of readdirSync(agentSkillsDir, { withFileTypes: true })) {
+        const target = join(agentSkillsDir, entry.name);
+        if (format) {
+          // Other rule files are the user's own; only orphaned generated ones matter
+          const skill = ownRule(target, sources);
+          if (skill !== null && !known.has(skill)) dangling.push(targetName(skill, options));
+        } else if (entry.isSymbolicLink()) {
+          if (pointsIntoAny(root, target, sources)) {
+            if (!existsSync(target)) dangling.push(entry.name);
+          } else if (!names.has(entry.name) && !linksToProjectSkill(root, target)) {
+            foreign.push(entry.name);
+          }
+        } else if (
+          entry.isDirectory() &&
+          !names.has(entry.name) &&
+          !manifest.copies[manifestKey(root, target)]
+        ) {
+          unmanaged.push(entry.name);
+        } else if (entry.isFile() && !names.has(entry.name) && !entry.name.startsWith('.')) {
+          foreign.push(entry.name);
+        }
+      }
+    }
+
     statuses.push({
       agent: agentName,
       skillsDir: agentConfig.skillsDir,
       linked,
       unlinked,
       wrong,
+      copied,
+      stale,
+      modified,
+      generated,
+      notApplicable,
+      dangling,
+      unmanaged,
+      shadowed,
+      foreign,
+      ignored,
+      ...(options.layers?.length ? { layers } : {}),
     });
   }
 
   return statuses;
 }
 
+/**
+ * Whether a link leads to a skill elsewhere in the project, such as one
+ * another source (e.g. a workspace package) linked into the same agent dir
+ */
+function linksToProjectSkill(root: string, link: string): boolean {
+  return pointsInto(link, root) && existsSync(join(link, SKILL_FILE));
+}
+
+/** Check if a symlink's target (resolved relative to the link) lies inside dir */
+export function pointsInto(link: string, dir: string): boolean {
+  const resolvedTarget = resolve(dirname(link), readlinkSync(link));
+  return resolvedTarget === dir || resolvedTarget.startsWith(dir + sep);
+}
+
 /** Check if a path is a symlink (without following it) */
-function isSymlink(path: string): boolean {
+export function isSymlink(path: string): boolean {
   try {
     return lstatSync(path).isSymbolicLink();
   } catch {
     return false;
   }
 }
+
+/** Check if a path is a directory (following symlinks) */
+export function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,107 @@
+import { lstatSync, readFileSync } from 'fs';
+import { formatScalar } from './frontmatter.ts';
+import { SKILL_FILE } from './skills.ts';
+import type { RuleFormat, Skill } from './types.ts';
+
+interface FormatSpec {
+  /** Appended to the skill name to form the file name */
+  extension: string;
+  /** Frontmatter of the generated file; `globs` are the skill's, joined with commas */
+  frontmatter: (description: string, globs?: string) => Record<string, string | boolean>;
+}
+
+/** Rule file formats of agents that don't read SKILL.md folders */
+export const RULE_FORMATS: Record<RuleFormat, FormatSpec> = {
+  // https://docs.cursor.com/context/rules
+  cursor: {
+    extension: '.mdc',
+    frontmatter: (description, globs) => ({
+      description,
+      ...(globs ? { globs } : {}),
+      alwaysApply: false,
+    }),
+  },
+  // https://code.visualstudio.com/docs/copilot/copilot-customization
+  copilot: {
+    extension: '.instructions.md',
+    frontmatter: (description, globs) => ({
+      description,
+      ...(globs ? { applyTo: globs } : {}),
+    }),
+  },
+  // https://docs.windsurf.com/windsurf/cascade/memories#rules
+  windsurf: {
+    extension: '.md',
+    frontmatter: (description, globs) => ({
+      trigger: globs ? 'glob' : 'model_decision',
+      description,
+      ...(globs ? { globs } : {}),
+    }),
+  },
+};
+
+const PROVENANCE_RE = /^<!-- Generated by skillink from (.+?) — /m;
+
+export function isRuleFormat(value: unknown): value is RuleFormat {
+  return typeof value === 'string' && value in RULE_FORMATS;
+}
+
+/** File a skill is rendered to inside the agent's rules dir */
+export function ruleFileName(format: RuleFormat, skill: string): string {
+  return skill + RULE_FORMATS[format].extension;
+}
+
+/**
+ * Render a skill as a rule file: the format's frontmatter, a provenance
+ * header naming the source SKILL.md (relative to the root), then the body.
+ */
+export function renderRule(format: RuleFormat, skill: Skill, source: string): string {
+  const sourceFile = ruleSourceFile(source, skill.dirName);
+  const globs = skill.frontmatter.globs;
+  const frontmatter = RULE_FORMATS[format].frontmatter(
+    skill.frontmatter.description ?? '',
+    Array.isArray(globs) ? globs.join(',') : globs,
+  );
+
+  const lines = [
+    '---',
+    ...Object.entries(frontmatter).map(([key, value]) => `${key}: ${formatScalar(value)}`),
+    '---',
+    `<!-- Generated by skillink from ${sourceFile} — edit that file and run "skillink sync". -->`,
+    '',
+    skill.body.replace(/^\n+/, '').replace(/\n*$/, '\n'),
+  ];
+  return lines.join('\n');
+}
+
+/** Path of a skill's SKILL.md as named in the provenance header */
+export function ruleSourceFile(source: string, skill: string): string {
+  return `${source}/${skill}/${SKILL_FILE}`.split('\\').join('/');
+}
+
+/**
+ * The skill a rule file was generated from, if skillink rendered it from
+ * this source; null for hand-written files.
+ */
+export function generatedSkill(file: string, source: string): string | null {
+  if (!isFile(file)) return null;
+
+  let from: string | undefined;
+  try {
+    from = readFileSync(file, 'utf-8').match(PROVENANCE_RE)?.[1];
+  } catch {
+    return null;
+  }
+
+  const prefix = `${source.split('\\').join('/')}/`;
+  if (!from?.startsWith(prefix) || !from.endsWith(`/${SKILL_FILE}`)) return null;
+  return from.slice(prefix.length, -(SKILL_FILE.length + 1)) || null;
+}
+
+function isFile(path: string): boolean {
+  try {
+    return lstatSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
@@ -1,14 +1,57 @@
+/**
+ * How skills reach an agent dir: relative symlinks, tracked copies, or
+ * rule files rendered in the agent's own format (per agent only)
+ */
+export type DistributionMode = 'symlink' | 'copy' | 'transform';
+
+/** Rule file formats the transform mode can render */
+export type RuleFormat = 'cursor' | 'copilot' | 'windsurf';
+
 export interface AgentConfig {
   name: string;
   displayName: string;
   /** Project-level skills directory (relative to project root) */
   skillsDir: string;
+  /** User-level skills directory (relative to the home directory) */
+  globalSkillsDir?: string;
+  /** Distribution mode for this agent (default: symlink) */
+  mode?: DistributionMode;
+  /** Rule format for the transform mode; skillsDir is then the rules dir */
+  format?: RuleFormat;
+  /**
+   * Files or dirs (relative to the project root) that show the project uses
+   * this agent; a trailing slash means it must be a directory
+   */
+  detect?: string[];
+  /** Same as `detect`, relative to the home directory for the global scope */
+  globalDetect?: string[];
 }
 
+/** Project-level (cwd) or user-level (home directory) distribution */
+export type Scope = 'project' | 'global';
+
+/**
+ * How workspace packages are synced: each into its own agent dirs
+ * ("packages"), or gathered into the root's agent dirs as `<pkg>-<skill>`
+ * ("root")
+ */
+export type WorkspaceMode = 'packages' | 'root';
+
+/**
+ * How nested skills (`frontend/react-review`) are named in flat agent dirs:
+ * `frontend--react-review` ("category") or `react-review` ("leaf")
+ */
+export type FlattenScheme = 'category' | 'leaf';
+
 export interface SyncResult {
   created: SyncEntry[];
+  /** Links pruned during sync, or everything removed by clean */
+  removed: SyncEntry[];
   skipped: SyncEntry[];
+  /** Entries that hit a file system error; their own changes were undone */
   failed: SyncEntry[];
+  /** Set when an atomic run failed and every change was undone */
+  rolledBack?: boolean;
 }
 
 export interface SyncEntry {
@@ -18,3 +61,58 @@ export interface SyncEntry {
   target: string;
   reason?: string;
 }
+
+/** Parsed SKILL.md frontmatter — name and description are required by the spec */
+export interface SkillFrontmatter {
+  name?: string;
+  description?: string;
+  license?: string;
+  'allowed-tools'?: string | string[];
+  metadata?: Record<string, unknown>;
+  /** Only distribute to these agents */
+  agents?: string[];
+  /** Never distribute to these agents */
+  'exclude-agents'?: string[];
+  /** File globs a rendered rule applies to (transform mode) */
+  globs?: string | string[];
+  [key: string]: unknown;
+}
+
+/** Which agents a skill is distributed to (from frontmatter or project config) */
+export interface SkillTargeting {
+  agents?: string[];
+  excludeAgents?: string[];
+}
+
+/** Size limits checked by "skillink stats"; any exceeded limit fails the run */
+export interface StatsThresholds {
+  /** Estimated tokens of one skill's frontmatter description */
+  maxDescriptionTokens?: number;
+  /** Estimated tokens of one SKILL.md body */
+  maxBodyTokens?: number;
+  /** Bytes of one skill directory, references included */
+  maxSkillBytes?: number;
+  /** Estimated tokens of all descriptions together (always in context) */
+  maxTotalDescriptionTokens?: number;
+}
+
+export interface SkillIssue {
+  skill: string;
+  file: string;
+  /** 1-based line in the file, when known */
+  line?: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface Skill {
+  /** Path under the skill source (`frontend/react-review` for nested skills) */
+  dirName: string;
+  /** Absolute skill directory */
+  dir: string;
+  /** Absolute path to SKILL.md */
+  file: string;
+  frontmatter: SkillFrontmatter;
+  body: string;
+  issues: SkillIssue[];
+}
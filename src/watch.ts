@@ -0,0 +1,103 @@
+import { existsSync, watch, type FSWatcher } from 'fs';
+import { join } from 'path';
+import { discoverSkills } from './skills.ts';
+import { sourceLayers, syncSkills, type SyncOptions } from './sync.ts';
+import type { SyncResult } from './types.ts';
+
+export interface WatchHandlers {
+  /** Called after each debounced sync */
+  onSync: (result: SyncResult) => void;
+  onError?: (error: unknown) => void;
+  /** Quiet period before a burst of changes triggers a sync (default: 200ms) */
+  debounceMs?: number;
+}
+
+/**
+ * Watch the skill source (every layer) and re-run syncSkills when it changes.
+ * Returns a function that stops watching.
+ *
+ * Uses a recursive watcher where the platform supports it; otherwise
+ * watches the source dir and each skill and category dir, re-arming after
+ * every sync.
+ */
+export function watchSkills(
+  root: string,
+  options: SyncOptions,
+  handlers: WatchHandlers,
+): () => void {
+  const sources = sourceLayers(options);
+  const debounceMs = handlers.debounceMs ?? 200;
+  let watchers: FSWatcher[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let recursive = true;
+  let stopped = false;
+
+  const run = () => {
+    timer = undefined;
+    if (stopped) return;
+    try {
+      handlers.onSync(syncSkills(root, options));
+    } catch (e) {
+      handlers.onError?.(e);
+    }
+    if (!recursive) arm();
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(run, debounceMs);
+  };
+
+  const close = () => {
+    for (const w of watchers) w.close();
+    watchers = [];
+  };
+
+  // A dir deleted since it was listed is skipped; its parent's watcher sees the change
+  const watchDir = (dir: string) => {
+    try {
+      watchers.push(watch(dir, schedule));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+    }
+  };
+
+  const arm = () => {
+    close();
+
+    if (recursive) {
+      try {
+        for (const source of sources) {
+          watchers.push(watch(join(root, source), { recursive: true }, schedule));
+        }
+        return;
+      } catch {
+        close();
+        recursive = false;
+      }
+    }
+
+    for (const source of sources) {
+      const sourceDir = join(root, source);
+      if (!existsSync(sourceDir)) continue;
+      watchDir(sourceDir);
+      // Each skill dir, and the category dirs above nested skills
+      const dirs = new Set<string>();
+      for (const skill of discoverSkills(root, source)) {
+        const parts = skill.split('/');
+        parts.forEach((_, i) => dirs.add(parts.slice(0, i + 1).join('/')));
+      }
+      for (const dir of dirs) {
+        watchDir(join(sourceDir, dir));
+      }
+    }
+  };
+
+  arm();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    close();
+  };
+}
@@ -0,0 +1,162 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { loadConfig } from './config.ts';
+import { globToRegExp } from './glob.ts';
+import { discoverSkills, flattenName } from './skills.ts';
+import type { FlattenScheme } from './types.ts';
+
+export interface Workspace {
+  /** package.json name, or the directory name */
+  name: string;
+  /** Package directory, relative to the root */
+  dir: string;
+  /** Skill source of the package, relative to the package */
+  source: string;
+}
+
+/** A skill name claimed by more than one source when gathering into the root */
+export interface Collision {
+  name: string;
+  /** "root" or package names; the first one wins */
+  claimedBy: string[];
+  /** Each claimant's skill, by its path in that source */
+  skills: string[];
+}
+
+/** Directories never searched for workspace packages */
+const IGNORED_DIRS = new Set(['node_modules', '.git']);
+
+/**
+ * Find workspace packages from package.json "workspaces" (npm, yarn, bun)
+ * or pnpm-workspace.yaml. Only packages with a skill source are returned,
+ * sorted by directory.
+ */
+export function findWorkspaces(root: string): Workspace[] {
+  const patterns = readWorkspacePatterns(root);
+  if (patterns.length === 0) return [];
+
+  const include = patterns.filter((p) => !p.startsWith('!')).map(globToRegExp);
+  const exclude = patterns.filter((p) => p.startsWith('!')).map((p) => globToRegExp(p.slice(1)));
+  const workspaces: Workspace[] = [];
+
+  const walk = (rel: string) => {
+    for (const entry of readdirSync(join(root, rel), { withFileTypes: true })) {
+      if (!entry.isDirectory() || IGNORED_DIRS.has(entry.name) || entry.name.startsWith('.')) {
+        continue;
+      }
+      const dir = rel ? `${rel}/${entry.name}` : entry.name;
+      const matched =
+        include.some((re) => re.test(dir)) && !exclude.some((re) => re.test(dir));
+
+      if (matched && existsSync(join(root, dir, 'package.json'))) {
+        const source = loadConfig(join(root, dir)).source;
+        if (existsSync(join(root, dir, source))) {
+          workspaces.push({ name: readPackageName(join(root, dir)) ?? entry.name, dir, source });
+        }
+      }
+      walk(dir);
+    }
+  };
+
+  walk('');
+  return workspaces.sort((a, b) => (a.dir < b.dir ? -1 : a.dir > b.dir ? 1 : 0));
+}
+
+/** Prefix for a package's skills in the root: its name without scope, in skill-name form */
+export function workspacePrefix(workspace: Workspace): string {
+  const name = workspace.name.replace(/^@[^/]+\//, '') || basename(workspace.dir);
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Skill names that would collide when the root's own skills and every
+ * package's prefixed skills share the root agent dirs. The root's skills
+ * win, then packages in directory order.
+ */
+export function findCollisions(
+  root: string,
+  rootSource: string | undefined,
+  workspaces: Workspace[],
+  flatten: FlattenScheme = 'category',
+): Collision[] {
+  const claims = new Map<string, Collision>();
+  const claim = (name: string, by: string, skill: string) => {
+    const c = claims.get(name) ?? { name, claimedBy: [], skills: [] };
+    // Clashes within one source are reported by sync itself
+    if (c.claimedBy.includes(by)) return;
+    c.claimedBy.push(by);
+    c.skills.push(skill);
+    claims.set(name, c);
+  };
+
+  if (rootSource && existsSync(join(root, rootSource))) {
+    for (const skill of discoverSkills(root, rootSource)) {
+      claim(flattenName(skill, flatten), 'root', skill);
+    }
+  }
+  for (const ws of workspaces) {
+    const prefix = workspacePrefix(ws);
+    for (const skill of discoverSkills(join(root, ws.dir), ws.source)) {
+      claim(`${prefix}-${flattenName(skill, flatten)}`, ws.name, skill);
+    }
+  }
+
+  return [...claims.values()].filter((c) => c.claimedBy.length > 1);
+}
+
+/** Skills of a package (by source name) that lose a collision and are not gathered */
+export function shadowedSkills(workspace: Workspace, collisions: Collision[]): string[] {
+  return collisions
+    .filter((c) => c.claimedBy.indexOf(workspace.name) > 0)
+    .map((c) => c.skills[c.claimedBy.indexOf(workspace.name)]);
+}
+
+function readWorkspacePatterns(root: string): string[] {
+  const pnpm = join(root, 'pnpm-workspace.yaml');
+  if (existsSync(pnpm)) {
+    return parsePnpmPackages(readFileSync(pnpm, 'utf-8'));
+  }
+
+  const pkgPath = join(root, 'package.json');
+  if (!existsSync(pkgPath)) return [];
+
+  let pkg: { workspaces?: string[] | { packages?: string[] } };
+  try {
+    pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
+  } catch (e) {
+    throw new Error(`Failed to parse ${pkgPath}: ${e instanceof Error ? e.message : e}`);
+  }
+
+  // npm and bun use an array; yarn also allows { packages: [...] }
+  const workspaces = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages;
+  return (workspaces ?? []).filter((p): p is string => typeof p === 'string');
+}
+
+/** Read the top-level "packages:" list of pnpm-workspace.yaml */
+function parsePnpmPackages(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:\s*$/.test(line);
+      continue;
+    }
+    const item = inPackages && line.match(/^\s+-\s+(.+?)\s*(?:#.*)?$/);
+    if (item) patterns.push(item[1].replace(/^(['"])(.*)\1$/, '$2'));
+  }
+
+  return patterns;
+}
+
+function readPackageName(dir: string): string | undefined {
+  try {
+    const name = JSON.parse(readFileSync(join(dir, 'package.json'), 'utf-8')).name;
+    return typeof name === 'string' && name !== '' ? name : undefined;
+  } catch {
+    return undefined;
+  }
+}
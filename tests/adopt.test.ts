@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, lstatSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { adoptSkill, diffSkills, findAdoptable } from '../src/adopt.ts';
+import { createJournalRun, undoLastRun } from '../src/journal.ts';
+import { syncSkills } from '../src/sync.ts';
+import { SOURCE, useTempProject, writeSkill } from './helpers.ts';
+const agents = {
+  'claude-code': { skillsDir: '.claude/skills' },
+  opencode: { skillsDir: '.opencode/skills' },
+};
+
+describe('adopt', () => {
+  let root: string;
+  useTempProject((dir) => {
+    root = dir;
+    mkdirSync(join(root, SOURCE), { recursive: true });
+  });
+
+  it('should find real skill dirs and group identical versions', () => {
+    writeSkill(root, 'shared', { source: '.claude/skills' });
+    writeSkill(root, 'shared', { source: '.opencode/skills' });
+    writeSkill(root, 'only-claude', { source: '.claude/skills' });
+    mkdirSync(join(root, '.claude/skills', 'no-skill-md'));
+
+    const candidates = findAdoptable(root, { agents });
+
+    expect(candidates.map((c) => c.name)).toEqual(['only-claude', 'shared']);
+    expect(candidates[1].versions.map((v) => v.from)).toEqual(['claude-code', 'opencode']);
+    expect(candidates[1].conflict).toBe(false);
+  });
+
+  it('should flag versions that differ, including the source', () => {
+    writeSkill(root, 'review', { body: 'source version' });
+    writeSkill(root, 'review', { source: '.claude/skills', body: 'claude version' });
+
+    const [candidate] = findAdoptable(root, { agents });
+
+    expect(candidate.versions.map((v) => v.from)).toEqual(['source', 'claude-code']);
+    expect(candidate.conflict).toBe(true);
+    expect(diffSkills(candidate.versions[0].dir, candidate.versions[1].dir)).toContain(
+      '+claude version',
+    );
+  });
+
+  it('should move the picked version into the source so sync can link it', () => {
+    writeSkill(root, 'review', { source: '.claude/skills', body: 'claude version' });
+    writeSkill(root, 'review', { source: '.opencode/skills', body: 'opencode version' });
+    const [candidate] = findAdoptable(root, { agents });
+
+    const removed = adoptSkill(root, SOURCE, candidate, candidate.versions[1]);
+    syncSkills(root, { agents });
+
+    expect(removed).toHaveLength(2);
+    expect(readFileSync(join(root, SOURCE, 'review', 'SKILL.md'), 'utf-8')).toContain(
+      'opencode version',
+    );
+    expect(lstatSync(join(root, '.claude/skills/review')).isSymbolicLink()).toBe(true);
+    expect(lstatSync(join(root, '.opencode/skills/review')).isSymbolicLink()).toBe(true);
+  });
+
+  it('should bring the agent copies back on undo', () => {
+    writeSkill(root, 'review', { body: 'source version' });
+    writeSkill(root, 'review', { source: '.claude/skills', body: 'claude version' });
+    const journal = createJournalRun(root, 'sync');
+    const [candidate] = findAdoptable(root, { agents });
+
+    adoptSkill(root, SOURCE, candidate, candidate.versions[1], { journal });
+    syncSkills(root, { agents, journal });
+    expect(undoLastRun(root)?.command).toBe('sync');
+
+    expect(readFileSync(join(root, '.claude/skills/review/SKILL.md'), 'utf-8')).toContain(
+      'claude version',
+    );
+    expect(readFileSync(join(root, SOURCE, 'review/SKILL.md'), 'utf-8')).toContain(
+      'source version',
+    );
+  });
+
+  it('should change nothing in dry-run', () => {
+    writeSkill(root, 'review', { source: '.claude/skills' });
+    const [candidate] = findAdoptable(root, { agents });
+
+    adoptSkill(root, SOURCE, candidate, candidate.versions[0], { dryRun: true });
+
+    expect(existsSync(join(root, SOURCE, 'review'))).toBe(false);
+    expect(lstatSync(join(root, '.claude/skills/review')).isDirectory()).toBe(true);
+  });
+});
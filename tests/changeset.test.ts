@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readFileSync,
+  readlinkSync,
+  symlinkSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { createChangeset } from '../src/changeset.ts';
+import { useTempProject } from './helpers.ts';
+
+describe('createChangeset', () => {
+  let root: string;
+
+  useTempProject((dir) => {
+    root = dir;
+    mkdirSync(join(root, 'src'));
+    writeFileSync(join(root, 'src', 'SKILL.md'), 'new');
+  });
+
+  it('should undo links, copies and removals newest first', () => {
+    const link = join(root, 'agent', 'link');
+    const copy = join(root, 'agent', 'copy');
+    const removed = join(root, 'kept');
+    mkdirSync(join(root, 'agent'));
+    symlinkSync('../src', link);
+    mkdirSync(copy);
+    writeFileSync(join(copy, 'SKILL.md'), 'old');
+    mkdirSync(removed);
+    writeFileSync(join(removed, 'file'), 'keep me');
+
+    const changes = createChangeset();
+    changes.unlink(link);
+    changes.symlink('../elsewhere', link);
+    changes.copy(join(root, 'src'), copy);
+    changes.remove(removed);
+    changes.symlink('../../src', join(root, 'new', 'dir', 'link'));
+    expect(readFileSync(join(copy, 'SKILL.md'), 'utf-8')).toBe('new');
+
+    changes.rollback();
+    changes.dispose();
+
+    expect(readlinkSync(link)).toBe('../src');
+    expect(readFileSync(join(copy, 'SKILL.md'), 'utf-8')).toBe('old');
+    expect(readFileSync(join(removed, 'file'), 'utf-8')).toBe('keep me');
+    expect(existsSync(join(root, 'new'))).toBe(false);
+  });
+
+  it('should roll back only to a mark', () => {
+    const changes = createChangeset();
+    changes.symlink('src', join(root, 'first'));
+    const mark = changes.size;
+    changes.symlink('src', join(root, 'second'));
+
+    changes.rollback(mark);
+
+    expect(lstatSync(join(root, 'first')).isSymbolicLink()).toBe(true);
+    expect(existsSync(join(root, 'second'))).toBe(false);
+    expect(changes.size).toBe(1);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkStatus,
+  formatJUnit,
+  formatSarif,
+  inferReportFormat,
+} from '../src/check.ts';
+import type { StatusEntry } from '../src/sync.ts';
+
+function status(overrides: Partial<StatusEntry> = {}): StatusEntry {
+  return {
+    agent: 'claude-code',
+    skillsDir: '.claude/skills',
+    linked: [],
+    unlinked: [],
+    wrong: [],
+    copied: [],
+    stale: [],
+    modified: [],
+    generated: [],
+    notApplicable: [],
+    dangling: [],
+    unmanaged: [],
+    shadowed: [],
+    foreign: [],
+    ignored: [],
+    ...overrides,
+  };
+}
+
+describe('checkStatus', () => {
+  it('should exit 0 when everything is linked', () => {
+    const result = checkStatus([
+      status({ linked: ['a'], copied: ['b'], notApplicable: ['c'], foreign: ['NOTES.md'] }),
+    ]);
+
+    expect(result.problems).toEqual([]);
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('should combine a distinct exit code bit per problem kind', () => {
+    expect(checkStatus([status({ unlinked: ['a'] })]).exitCode).toBe(2);
+    expect(checkStatus([status({ wrong: ['a'] })]).exitCode).toBe(4);
+    expect(checkStatus([status({ dangling: ['a'] })]).exitCode).toBe(8);
+    expect(checkStatus([status({ unmanaged: ['a'] })]).exitCode).toBe(16);
+    expect(checkStatus([status({ unlinked: ['a'], dangling: ['b'] })]).exitCode).toBe(10);
+  });
+
+  it('should count stale copies as unlinked and modified copies as wrong', () => {
+    const result = checkStatus([status({ stale: ['a'], modified: ['b'] })]);
+
+    expect(result.problems.map((p) => [p.skill, p.kind])).toEqual([
+      ['a', 'unlinked'],
+      ['b', 'wrong'],
+    ]);
+    expect(result.problems[0].path).toBe('.claude/skills/a');
+  });
+});
+
+describe('reports', () => {
+  const result = checkStatus([
+    status({ linked: ['ok'], wrong: ['a<b'] }),
+    status({ agent: 'opencode', skillsDir: '.opencode/skills', unlinked: ['c'] }),
+  ]);
+
+  it('should write one JUnit suite per agent with escaped failures', () => {
+    const xml = formatJUnit(result);
+
+    expect(xml).toContain('<testsuites name="skillink check" tests="3" failures="2">');
+    expect(xml).toContain('<testsuite name="claude-code" tests="2" failures="1">');
+    expect(xml).toContain('<testcase name="ok" classname="skillink.claude-code"/>');
+    expect(xml).toContain('name="a&lt;b"');
+    expect(xml).toContain('<failure type="unlinked"');
+  });
+
+  it('should write a SARIF result per problem', () => {
+    const sarif = JSON.parse(formatSarif(result, '1.2.3'));
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.version).toBe('1.2.3');
+    expect(sarif.runs[0].results).toHaveLength(2);
+    expect(sarif.runs[0].results[1]).toMatchObject({
+      ruleId: 'unlinked',
+      locations: [{ physicalLocation: { artifactLocation: { uri: '.opencode/skills/c' } } }],
+    });
+  });
+
+  it('should infer the format from the file name', () => {
+    expect(inferReportFormat('out/skillink.sarif')).toBe('sarif');
+    expect(inferReportFormat('report.json')).toBe('sarif');
+    expect(inferReportFormat('junit.xml')).toBe('junit');
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadConfig, getHomeDir, DEFAULT_SOURCE } from '../src/config.ts';
+import { detectAgent, getDefaultAgents, getSkillsDir } from '../src/agents.ts';
+import { useTempProject } from './helpers.ts';
+
+describe('loadConfig', () => {
+  let root: string;
+
+  useTempProject((dir) => (root = dir));
+
+  it('should fall back to defaults without a config', () => {
+    const config = loadConfig(root);
+
+    expect(config.source).toBe(DEFAULT_SOURCE);
+    expect(config.defaultAgents).toEqual([]);
+    expect(config.agents['claude-code']).toBeDefined();
+    expect(config.path).toBeUndefined();
+  });
+
+  it('should read skillink.config.json', () => {
+    writeFileSync(
+      join(root, 'skillink.config.json'),
+      JSON.stringify({
+        source: 'skills',
+        agents: ['claude-code'],
+        customAgents: {
+          windsurf: { displayName: 'Windsurf', skillsDir: '.windsurf/skills' },
+        },
+      }),
+    );
+
+    const config = loadConfig(root);
+
+    expect(config.source).toBe('skills');
+    expect(config.defaultAgents).toEqual(['claude-code']);
+    expect(config.agents.windsurf).toEqual({
+      name: 'windsurf',
+      displayName: 'Windsurf',
+      skillsDir: '.windsurf/skills',
+    });
+    expect(config.agents.opencode).toBeDefined();
+  });
+
+  it('should read the "skillink" key in package.json', () => {
+    writeFileSync(
+      join(root, 'package.json'),
+      JSON.stringify({ name: 'demo', skillink: { agents: ['opencode'] } }),
+    );
+
+    const config = loadConfig(root);
+
+    expect(config.defaultAgents).toEqual(['opencode']);
+    expect(config.path).toBe(join(root, 'package.json'));
+  });
+
+  it('should prefer skillink.config.json over package.json', () => {
+    writeFileSync(
+      join(root, 'package.json'),
+      JSON.stringify({ skillink: { source: 'from-pkg' } }),
+    );
+    writeFileSync(
+      join(root, 'skillink.config.json'),
+      JSON.stringify({ source: 'from-config' }),
+    );
+
+    expect(loadConfig(root).source).toBe('from-config');
+  });
+
+  it('should let custom agents override built-in ones', () => {
+    writeFileSync(
+      join(root, 'skillink.config.json'),
+      JSON.stringify({
+        customAgents: { 'claude-code': { skillsDir: 'custom/skills' } },
+      }),
+    );
+
+    const config = loadConfig(root);
+
+    expect(config.agents['claude-code'].skillsDir).toBe('custom/skills');
+    expect(config.agents['claude-code'].displayName).toBe('Claude Code');
+  });
+
+  it('should split a list of sources into layers', () => {
+    writeFileSync(
+      join(root, 'skillink.config.json'),
+      JSON.stringify({ source: ['vendor/org-skills', '.agents/skills'] }),
+    );
+
+    const config = loadConfig(root);
+    expect(config.source).toBe('.agents/skills');
+    expect(config.layers).toEqual(['vendor/org-skills']);
+  });
+
+  it('should reject invalid config', () => {
+    writeFileSync(
+      join(root, 'skillink.config.json'),
+      JSON.stringify({ customAgents: { broken: {} } }),
+    );
+
+    expect(() => loadConfig(root)).toThrow('skillsDir');
+
+    writeFileSync(join(root, 'skillink.config.json'), JSON.stringify({ workspaces: 'all' }));
+    expect(() => loadConfig(root)).toThrow('"workspaces" must be "packages" or "root"');
+
+    writeFileSync(join(root, 'skillink.config.json'), JSON.stringify({ stats: { maxBody: 10 } }));
+    expect(() => loadConfig(root)).toThrow('unknown threshold stats.maxBody');
+
+    writeFileSync(
+      join(root, 'skillink.config.json'),
+      JSON.stringify({ stats: { maxBodyTokens: '10' } }),
+    );
+    expect(() => loadConfig(root)).toThrow('stats.maxBodyTokens must be a non-negative number');
+  });
+});
+
+describe('global scope', () => {
+  it('should honor a HOME override', () => {
+    const original = process.env.HOME;
+    process.env.HOME = '/tmp/skillink-home';
+    try {
+      expect(getHomeDir()).toBe('/tmp/skillink-home');
+    } finally {
+      process.env.HOME = original;
+    }
+  });
+
+  it('should pick the skills dir for each scope', () => {
+    const { agents } = loadConfig(tmpdir());
+
+    expect(getSkillsDir(agents.opencode, 'project')).toBe('.opencode/skills');
+    expect(getSkillsDir(agents.opencode, 'global')).toBe('.config/opencode/skills');
+    expect(
+      getSkillsDir({ name: 'x', displayName: 'X', skillsDir: '.x/skills' }, 'global'),
+    ).toBeUndefined();
+  });
+});
+
+describe('agent detection', () => {
+  let root: string;
+
+  useTempProject((dir) => (root = dir));
+
+  it('should report the marker files that exist', () => {
+    writeFileSync(join(root, 'CLAUDE.md'), '# Notes\n');
+    mkdirSync(join(root, '.claude'));
+    const { agents } = loadConfig(root);
+
+    expect(detectAgent(agents['claude-code'], root, 'project')).toEqual([
+      'CLAUDE.md',
+      '.claude/',
+    ]);
+    expect(detectAgent(agents.opencode, root, 'project')).toEqual([]);
+  });
+
+  it('should require a directory for markers with a trailing slash', () => {
+    writeFileSync(join(root, '.opencode'), '');
+    writeFileSync(
+      join(root, 'skillink.config.json'),
+      JSON.stringify({
+        customAgents: { aider: { skillsDir: '.aider/skills', detect: ['.aider.conf.yml'] } },
+      }),
+    );
+    writeFileSync(join(root, '.aider.conf.yml'), '');
+    const { agents } = loadConfig(root);
+
+    expect(detectAgent(agents.opencode, root, 'project')).toEqual([]);
+    expect(detectAgent(agents.aider, root, 'project')).toEqual(['.aider.conf.yml']);
+  });
+
+  it('should leave rule-format agents out of the defaults unless used or configured', () => {
+    const defaults = () => {
+      const config = loadConfig(root);
+      return getDefaultAgents(config.agents, root, 'project', config.customAgents);
+    };
+
+    expect(defaults()).toEqual(['opencode', 'claude-code']);
+
+    mkdirSync(join(root, '.cursor'));
+    expect(defaults()).toEqual(['opencode', 'claude-code', 'cursor-rules']);
+
+    writeFileSync(
+      join(root, 'skillink.config.json'),
+      JSON.stringify({ customAgents: { 'windsurf-rules': {} } }),
+    );
+    expect(defaults()).toEqual(['opencode', 'claude-code', 'cursor-rules', 'windsurf-rules']);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'child_process';
+import { chmodSync, existsSync, mkdirSync, readlinkSync, rmSync, symlinkSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { applyFixes, diagnose } from '../src/doctor.ts';
+import { syncSkills } from '../src/sync.ts';
+import { SOURCE, useTempProject, writeSkill } from './helpers.ts';
+
+const AGENTS = { 'claude-code': { skillsDir: '.claude/skills' } };
+const OPTIONS = { agents: AGENTS, source: SOURCE };
+
+describe('diagnose', () => {
+  let root: string;
+
+  useTempProject((dir) => {
+    root = dir;
+    writeSkill(root, 'lint');
+    syncSkills(root, OPTIONS);
+  });
+
+  it('should find nothing in a freshly synced project', () => {
+    expect(diagnose(root, OPTIONS)).toEqual([]);
+  });
+
+  it('should report dangling, absolute and outside links and fix the safe ones', () => {
+    const dir = join(root, '.claude/skills');
+    symlinkSync('../../.agents/skills/gone', join(dir, 'gone'));
+    symlinkSync(join(root, SOURCE, 'lint'), join(dir, 'abs'));
+    symlinkSync(tmpdir(), join(dir, 'outside'));
+
+    const findings = diagnose(root, OPTIONS);
+    expect(findings.map((f) => [f.kind, f.path, f.fixable])).toEqual([
+      ['absolute', '.claude/skills/abs', true],
+      ['dangling', '.claude/skills/gone', true],
+      ['outside-root', '.claude/skills/outside', false],
+    ]);
+
+    expect(applyFixes(root, findings).map((f) => f.kind)).toEqual(['absolute', 'dangling']);
+    expect(readlinkSync(join(dir, 'abs'))).toBe('../../.agents/skills/lint');
+    expect(existsSync(join(dir, 'gone'))).toBe(false);
+    expect(diagnose(root, OPTIONS).map((f) => f.kind)).toEqual(['outside-root']);
+  });
+
+  it('should leave dangling links it did not make to the user', () => {
+    symlinkSync('../elsewhere', join(root, '.claude/skills/other'));
+
+    const [finding] = diagnose(root, OPTIONS);
+    expect(finding.kind).toBe('dangling');
+    expect(finding.fixable).toBe(false);
+  });
+
+  it('should report a symlinked agent dir', () => {
+    mkdirSync(join(root, 'shared'));
+    rmSync(join(root, '.claude/skills'), { recursive: true });
+    symlinkSync('../shared', join(root, '.claude/skills'));
+
+    expect(diagnose(root, OPTIONS).map((f) => [f.kind, f.agent])).toEqual([
+      ['symlinked-dir', 'claude-code'],
+    ]);
+  });
+
+  it('should report skills without SKILL.md and names that differ only in case', () => {
+    mkdirSync(join(root, SOURCE, 'draft'));
+    writeSkill(root, 'Lint');
+
+    const findings = diagnose(root, OPTIONS);
+    expect(findings.map((f) => [f.kind, f.path])).toEqual([
+      ['missing-skill-file', `${SOURCE}/draft`],
+      ['case-clash', SOURCE],
+    ]);
+    expect(findings[1].message).toContain('Lint, lint');
+  });
+
+  it.skipIf(process.getuid?.() === 0)('should report unreadable skill dirs', () => {
+    writeSkill(root, 'secret');
+    chmodSync(join(root, SOURCE, 'secret'), 0o000);
+
+    try {
+      expect(diagnose(root, OPTIONS).map((f) => [f.kind, f.path])).toEqual([
+        ['unreadable', `${SOURCE}/secret`],
+      ]);
+    } finally {
+      chmodSync(join(root, SOURCE, 'secret'), 0o755);
+    }
+  });
+
+  it('should report managed entries committed to git', () => {
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: root, stdio: 'pipe' });
+    git('init', '-q');
+    git('add', '.claude');
+
+    const [finding] = diagnose(root, OPTIONS);
+    expect(finding.kind).toBe('git-tracked');
+    expect(finding.path).toBe('.claude/skills');
+    expect(finding.message).toContain('(lint)');
+  });
+});
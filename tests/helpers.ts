@@ -0,0 +1,45 @@
+import { afterEach, beforeEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import { tmpdir } from 'os';
+
+/** Default skill source, relative to the project root */
+export const SOURCE = '.agents/skills';
+
+/**
+ * Give every test in the enclosing describe a fresh temp project, removed
+ * afterwards. `setup` gets its root before each test.
+ */
+export function useTempProject(setup: (root: string) => void): void {
+  let root = '';
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'skillink-test-'));
+    setup(root);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+}
+
+export interface SkillFixture {
+  /** Directory the skill goes in, relative to the root (default: SOURCE) */
+  source?: string;
+  description?: string;
+  /** Extra frontmatter lines, each ending in a newline */
+  frontmatter?: string;
+  body?: string;
+}
+
+/** Write a skill with a valid SKILL.md and return its directory */
+export function writeSkill(root: string, name: string, fixture: SkillFixture = {}): string {
+  const { source = SOURCE, description = 'Test skill', frontmatter = '', body = '' } = fixture;
+  const dir = join(root, source, name);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(
+    join(dir, 'SKILL.md'),
+    `---\nname: ${basename(name)}\ndescription: ${description}\n${frontmatter}---\n${body}`,
+  );
+  return dir;
+}
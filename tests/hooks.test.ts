@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getHooksDir, installHooks, uninstallHooks } from '../src/hooks.ts';
+
+// Keep the user's and CI's git config (e.g. a global core.hooksPath) out of the tests
+const GIT_ENV = ['GIT_CONFIG_COUNT', 'GIT_CONFIG_PARAMETERS', 'GIT_CONFIG_GLOBAL', 'GIT_DIR'];
+
+describe('git hooks', () => {
+  let root: string;
+  const saved: Record<string, string | undefined> = {};
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: root, stdio: 'pipe' });
+  const hook = (name: string) => readFileSync(join(root, '.git/hooks', name), 'utf-8');
+
+  beforeEach(() => {
+    for (const key of GIT_ENV) saved[key] = process.env[key];
+    for (const key of GIT_ENV) delete process.env[key];
+    process.env.GIT_CONFIG_GLOBAL = '/dev/null';
+
+    root = mkdtempSync(join(tmpdir(), 'skillink-test-'));
+    git('init', '-q');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    for (const key of GIT_ENV) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+  });
+
+  it('should create executable hooks that sync quietly', () => {
+    const changes = installHooks(root);
+
+    expect(changes.map((c) => [c.hook, c.action])).toEqual([
+      ['post-checkout', 'created'],
+      ['post-merge', 'created'],
+      ['post-rewrite', 'created'],
+    ]);
+    expect(hook('post-merge')).toMatch(/^#!\/bin\/sh\n/);
+    expect(hook('post-merge')).toContain('skillink sync --yes >/dev/null || true');
+    // Only branch checkouts, not file checkouts
+    expect(hook('post-checkout')).toContain('if [ "$3" = "1" ]; then');
+    expect(statSync(join(root, '.git/hooks/post-merge')).mode & 0o111).toBe(0o111);
+
+    expect(installHooks(root).map((c) => c.action)).toEqual([
+      'unchanged',
+      'unchanged',
+      'unchanged',
+    ]);
+  });
+
+  it('should keep existing hook content on install and uninstall', () => {
+    const existing = '#!/bin/sh\necho "existing hook"\n';
+    mkdirSync(join(root, '.git/hooks'), { recursive: true });
+    writeFileSync(join(root, '.git/hooks/post-merge'), existing);
+
+    expect(installHooks(root)[1].action).toBe('added');
+    expect(hook('post-merge').startsWith(existing)).toBe(true);
+
+    const changes = uninstallHooks(root);
+    expect(changes.map((c) => c.action)).toEqual(['deleted', 'removed', 'deleted']);
+    expect(hook('post-merge')).toBe(existing);
+    expect(existsSync(join(root, '.git/hooks/post-checkout'))).toBe(false);
+  });
+
+  it('should insert the block before a final exit', () => {
+    mkdirSync(join(root, '.git/hooks'), { recursive: true });
+    writeFileSync(join(root, '.git/hooks/post-merge'), '#!/bin/bash\necho hi\nexit 0\n');
+
+    expect(installHooks(root)[1].action).toBe('added');
+    expect(hook('post-merge')).toMatch(/^#!\/bin\/bash\necho hi\n\n# >>> skillink >>>/);
+    expect(hook('post-merge')).toMatch(/# <<< skillink <<<\n\nexit 0\n$/);
+  });
+
+  it('should skip hooks that are not shell scripts', () => {
+    const existing = '#!/usr/bin/env node\nconsole.log("existing hook");\n';
+    mkdirSync(join(root, '.git/hooks'), { recursive: true });
+    writeFileSync(join(root, '.git/hooks/post-checkout'), existing);
+
+    expect(installHooks(root).map((c) => c.action)).toEqual(['skipped', 'created', 'created']);
+    expect(hook('post-checkout')).toBe(existing);
+  });
+
+  it('should sync only to detected agents when asked to', () => {
+    installHooks(root, { detected: true });
+
+    expect(hook('post-merge')).toContain('skillink sync --yes --detected >/dev/null || true');
+  });
+
+  it('should replace an outdated block in place', () => {
+    mkdirSync(join(root, '.git/hooks'), { recursive: true });
+    writeFileSync(
+      join(root, '.git/hooks/post-rewrite'),
+      '#!/bin/sh\n# >>> skillink >>>\nold\n# <<< skillink <<<\necho after\n',
+    );
+
+    expect(installHooks(root)[2].action).toBe('updated');
+    expect(hook('post-rewrite')).not.toContain('old');
+    expect(hook('post-rewrite')).toMatch(/# <<< skillink <<<\necho after\n$/);
+  });
+
+  it('should honor core.hooksPath', () => {
+    git('config', 'core.hooksPath', '.githooks');
+    mkdirSync(join(root, 'sub'));
+
+    expect(getHooksDir(join(root, 'sub'))).toBe(join(root, '.githooks'));
+    installHooks(join(root, 'sub'));
+    expect(existsSync(join(root, '.githooks/post-checkout'))).toBe(true);
+    expect(existsSync(join(root, '.git/hooks/post-checkout'))).toBe(false);
+  });
+
+  it('should fail outside a git repository', () => {
+    const outside = mkdtempSync(join(tmpdir(), 'skillink-test-'));
+    try {
+      expect(() => installHooks(outside)).toThrow('not inside a git repository');
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { isIgnored, parseIgnore } from '../src/ignore.ts';
+
+describe('isIgnored', () => {
+  const ignored = (content: string, id: string) => isIgnored(parseIgnore(content), id);
+
+  it('should match names at any depth unless the pattern has a slash', () => {
+    expect(ignored('_templates/\n', '_templates')).toBe(true);
+    expect(ignored('wip-*', 'frontend/wip-review')).toBe(true);
+    expect(ignored('/wip-*', 'frontend/wip-review')).toBe(false);
+    expect(ignored('frontend/wip-*', 'frontend/wip-review')).toBe(true);
+    expect(ignored('**/scratch', 'a/b/scratch')).toBe(true);
+  });
+
+  it('should skip comments and blank lines and let the last rule win', () => {
+    expect(ignored('# lint\n\nlint-*\n!lint-keep\n', 'lint-keep')).toBe(false);
+    expect(ignored('lint-*\n!lint-keep\n', 'lint-drop')).toBe(true);
+    expect(ignored('\\#notes\n', '#notes')).toBe(true);
+  });
+
+  it('should keep skills of an ignored category ignored', () => {
+    expect(ignored('drafts\n!drafts/keep\n', 'drafts/keep')).toBe(true);
+    expect(ignored('drafts/*\n!drafts/keep\n', 'drafts/keep')).toBe(false);
+  });
+});
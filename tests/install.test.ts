@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, writeFileSync, existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  installSkill,
+  openSkillPackage,
+  readOrigins,
+  uninstallSkill,
+} from '../src/install.ts';
+
+const SOURCE = '.agents/skills';
+
+describe('add / remove', () => {
+  let root: string;
+  let external: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'skillink-test-'));
+    external = mkdtempSync(join(tmpdir(), 'skillink-ext-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(external, { recursive: true, force: true });
+  });
+
+  function writeExternalSkill(dirName: string, name = dirName) {
+    const dir = join(external, dirName);
+    mkdirSync(join(dir, 'references'), { recursive: true });
+    writeFileSync(
+      join(dir, 'SKILL.md'),
+      `---\nname: ${name}\ndescription: Shared skill\n---\n`,
+    );
+    writeFileSync(join(dir, 'references', 'notes.md'), 'notes');
+    return dir;
+  }
+
+  it('should install a directory under its declared name', () => {
+    const dir = writeExternalSkill('checkout', 'shared-skill');
+
+    const pkg = openSkillPackage(root, dir);
+    const { replaced } = installSkill(root, SOURCE, pkg);
+
+    expect(pkg.name).toBe('shared-skill');
+    expect(replaced).toBe(false);
+    expect(existsSync(join(root, SOURCE, 'shared-skill', 'references', 'notes.md'))).toBe(
+      true,
+    );
+    expect(readOrigins(root)['shared-skill']).toMatchObject({
+      type: 'path',
+      location: dir,
+    });
+  });
+
+  it('should install from a .tgz archive', () => {
+    writeExternalSkill('packed');
+    const archive = join(external, 'packed.tgz');
+    execFileSync('tar', ['-czf', archive, '-C', external, 'packed']);
+
+    const pkg = openSkillPackage(root, archive);
+    try {
+      installSkill(root, SOURCE, pkg);
+    } finally {
+      pkg.cleanup();
+    }
+
+    expect(existsSync(join(root, SOURCE, 'packed', 'SKILL.md'))).toBe(true);
+    expect(readOrigins(root).packed.type).toBe('archive');
+  });
+
+  it('should reject invalid skills', () => {
+    const dir = join(external, 'broken');
+    mkdirSync(dir);
+    writeFileSync(join(dir, 'SKILL.md'), '---\nname: broken\n---\n');
+
+    expect(() => openSkillPackage(root, dir)).toThrow('description');
+  });
+
+  it('should reject names that would leave the source', () => {
+    const dir = writeExternalSkill('escape', '../..');
+
+    expect(() => openSkillPackage(root, dir)).toThrow('invalid name "../.."');
+    expect(() => uninstallSkill(root, SOURCE, '../../src')).toThrow('Invalid skill name');
+    expect(() => uninstallSkill(root, SOURCE, 'frontend/..')).toThrow('Invalid skill name');
+  });
+
+  it('should refuse to replace an existing skill unless forced', () => {
+    const pkg = openSkillPackage(root, writeExternalSkill('skill-a'));
+    installSkill(root, SOURCE, pkg);
+
+    expect(() => installSkill(root, SOURCE, pkg)).toThrow('already exists');
+    expect(installSkill(root, SOURCE, pkg, { force: true }).replaced).toBe(true);
+  });
+
+  it('should remove a skill and its origin', () => {
+    installSkill(root, SOURCE, openSkillPackage(root, writeExternalSkill('skill-a')));
+
+    uninstallSkill(root, SOURCE, 'skill-a');
+
+    expect(existsSync(join(root, SOURCE, 'skill-a'))).toBe(false);
+    expect(readOrigins(root)).toEqual({});
+    expect(() => uninstallSkill(root, SOURCE, 'skill-a')).toThrow('not found');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readlinkSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { cleanSkills, syncSkills, type SyncOptions } from '../src/sync.ts';
+import { readManifest } from '../src/copy.ts';
+import {
+  BACKUP_DIR,
+  createJournalRun,
+  JOURNAL_FILE,
+  MAX_RUNS,
+  readJournal,
+  undoLastRun,
+} from '../src/journal.ts';
+import { useTempProject, writeSkill } from './helpers.ts';
+
+describe('operation journal', () => {
+  let root: string;
+  const options = (extra: Partial<SyncOptions> = {}, command = 'sync'): SyncOptions => ({
+    agents: { 'claude-code': { skillsDir: '.claude/skills' } },
+    journal: createJournalRun(root, command),
+    ...extra,
+  });
+  const link = (skill: string) => join(root, '.claude/skills', skill);
+
+  useTempProject((dir) => {
+    root = dir;
+    writeSkill(root, 'skill-a');
+    writeSkill(root, 'skill-b');
+  });
+
+  it('should record links created and removed with their targets', () => {
+    syncSkills(root, options());
+    cleanSkills(root, options({ filterSkills: ['skill-a'] }, 'clean'));
+
+    const { runs } = readJournal(root);
+    expect(runs.map((r) => [r.id, r.command])).toEqual([
+      [1, 'sync'],
+      [2, 'clean'],
+    ]);
+    expect(runs[0].changes).toContainEqual({
+      type: 'link',
+      path: '.claude/skills/skill-a',
+      target: '../../.agents/skills/skill-a',
+    });
+    expect(runs[1].changes).toEqual([
+      { type: 'unlink', path: '.claude/skills/skill-a', target: '../../.agents/skills/skill-a' },
+    ]);
+  });
+
+  it('should not journal dry runs, runs without changes or runs without a recorder', () => {
+    syncSkills(root, options({ dryRun: true }));
+    syncSkills(root, options({ journal: undefined }));
+    syncSkills(root, options());
+
+    expect(existsSync(join(root, JOURNAL_FILE))).toBe(false);
+  });
+
+  it('should undo runs newest first', () => {
+    syncSkills(root, options());
+    cleanSkills(root, options({}, 'clean'));
+
+    expect(undoLastRun(root)?.command).toBe('clean');
+    expect(readlinkSync(link('skill-a'))).toBe('../../.agents/skills/skill-a');
+    expect(readJournal(root).runs).toHaveLength(1);
+
+    expect(undoLastRun(root)?.command).toBe('sync');
+    expect(existsSync(join(root, '.claude/skills'))).toBe(false);
+    expect(existsSync(join(root, JOURNAL_FILE))).toBe(false);
+    expect(undoLastRun(root)).toBeNull();
+  });
+
+  it('should restore removed copies and their manifest records', () => {
+    const copy = options({ mode: 'copy' });
+    syncSkills(root, copy);
+    writeFileSync(join(link('skill-a'), 'notes.md'), 'local edit');
+    cleanSkills(root, { ...options({ mode: 'copy' }, 'clean'), force: true });
+    expect(readManifest(root).copies).toEqual({});
+
+    undoLastRun(root);
+
+    expect(readFileSync(join(link('skill-a'), 'notes.md'), 'utf-8')).toBe('local edit');
+    expect(Object.keys(readManifest(root).copies).sort()).toEqual([
+      '.claude/skills/skill-a',
+      '.claude/skills/skill-b',
+    ]);
+    expect(existsSync(join(root, BACKUP_DIR))).toBe(false);
+  });
+
+  it('should refuse to undo when the file system changed since the run', () => {
+    syncSkills(root, options());
+    rmSync(link('skill-a'));
+    symlinkSync('../../elsewhere', link('skill-a'));
+
+    expect(() => undoLastRun(root)).toThrow(
+      'Cannot undo sync #1: changed since it ran: .claude/skills/skill-a',
+    );
+    expect(readlinkSync(link('skill-b'))).toBe('../../.agents/skills/skill-b');
+    expect(readJournal(root).runs).toHaveLength(1);
+  });
+
+  it('should record several roots as a single run', () => {
+    const pkg = join(root, 'packages/app');
+    writeSkill(pkg, 'skill-c');
+    const journal = createJournalRun(root, 'sync');
+
+    syncSkills(root, options({ journal }));
+    syncSkills(pkg, options({ journal, mode: 'copy' }));
+
+    const { runs } = readJournal(root);
+    expect(runs).toHaveLength(1);
+    expect(runs[0].changes.map((c) => c.path)).toContain('packages/app/.claude/skills/skill-c');
+    expect(Object.keys(runs[0].copies)).toEqual(['packages/app']);
+    expect(existsSync(join(pkg, JOURNAL_FILE))).toBe(false);
+
+    undoLastRun(root);
+    expect(existsSync(join(root, '.claude/skills'))).toBe(false);
+    expect(existsSync(join(pkg, '.claude/skills'))).toBe(false);
+    expect(readManifest(pkg).copies).toEqual({});
+  });
+
+  it('should keep the failed steps and their backups', () => {
+    syncSkills(root, options({ mode: 'copy' }));
+    cleanSkills(root, options({ mode: 'copy' }, 'clean'));
+    const [lost, kept] = readJournal(root).runs[1].changes as { path: string; backup: string }[];
+    rmSync(join(root, lost.backup), { recursive: true });
+
+    expect(() => undoLastRun(root)).toThrow(`Could not undo ${lost.path}: ENOENT`);
+
+    const [, run] = readJournal(root).runs;
+    expect(run.changes).toEqual([{ type: 'remove', path: lost.path, backup: lost.backup }]);
+    expect(Object.keys(run.copies['.'])).toEqual([lost.path]);
+    expect(existsSync(join(root, kept.path, 'SKILL.md'))).toBe(true);
+    expect(Object.keys(readManifest(root).copies)).toEqual([kept.path]);
+    expect(existsSync(join(root, kept.backup))).toBe(true);
+  });
+
+  it('should reject a journal of the wrong shape', () => {
+    mkdirSync(join(root, '.agents'), { recursive: true });
+    writeFileSync(join(root, JOURNAL_FILE), JSON.stringify({ runs: [{ id: 'one' }] }));
+
+    expect(() => readJournal(root)).toThrow('Invalid .agents/skillink-journal.json');
+  });
+
+  it('should check but not change anything on a dry run', () => {
+    syncSkills(root, options());
+
+    expect(undoLastRun(root, { dryRun: true })?.id).toBe(1);
+    expect(existsSync(link('skill-a'))).toBe(true);
+    expect(readJournal(root).runs).toHaveLength(1);
+  });
+
+  it(`should keep the last ${MAX_RUNS} runs`, () => {
+    for (let i = 0; i <= MAX_RUNS; i++) {
+      syncSkills(root, options());
+      cleanSkills(root, options({}, 'clean'));
+    }
+
+    const { runs } = readJournal(root);
+    expect(runs).toHaveLength(MAX_RUNS);
+    expect(runs[0].id).toBe(MAX_RUNS + 3);
+  });
+});
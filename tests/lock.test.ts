@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { buildLock, readLock, verifyLock, writeLock } from '../src/lock.ts';
+import { SOURCE, useTempProject, writeSkill } from './helpers.ts';
+
+describe('lockfile', () => {
+  let root: string;
+  useTempProject((dir) => (root = dir));
+
+  it('should record a hash and origin per skill', () => {
+    writeSkill(root, 'skill-b');
+    writeSkill(root, 'skill-a');
+
+    const lock = buildLock(root, [SOURCE]);
+
+    expect(Object.keys(lock.skills)).toEqual(['skill-a', 'skill-b']);
+    expect(lock.skills['skill-a'].hash).toMatch(/^sha256-[0-9a-f]{64}$/);
+    expect(lock.skills['skill-a'].origin).toEqual({ type: 'local' });
+  });
+
+  it('should round-trip through the lockfile', () => {
+    writeSkill(root, 'skill-a');
+    const lock = buildLock(root, [SOURCE]);
+    writeLock(root, lock);
+
+    expect(readLock(root)).toEqual(lock);
+  });
+
+  it('should pass verification when nothing changed', () => {
+    writeSkill(root, 'skill-a');
+    writeLock(root, buildLock(root, [SOURCE]));
+
+    expect(verifyLock(root, [SOURCE])).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it('should detect added, removed and changed skills', () => {
+    writeSkill(root, 'kept');
+    writeSkill(root, 'edited');
+    writeSkill(root, 'deleted');
+    writeLock(root, buildLock(root, [SOURCE]));
+
+    writeSkill(root, 'edited', { body: 'new body' });
+    writeSkill(root, 'new-skill');
+    rmSync(join(root, SOURCE, 'deleted'), { recursive: true });
+
+    expect(verifyLock(root, [SOURCE])).toEqual({
+      added: ['new-skill'],
+      removed: ['deleted'],
+      changed: ['edited'],
+    });
+  });
+
+  it('should lock vendored layers, with the project winning on conflicts', () => {
+    const vendor = 'vendor/org-skills';
+    writeSkill(root, 'shared');
+    writeSkill(root, 'shared', { source: vendor, body: 'vendored' });
+    writeSkill(root, 'vendored', { source: vendor, body: 'vendored' });
+
+    const lock = buildLock(root, [vendor, SOURCE]);
+    expect(Object.keys(lock.skills)).toEqual(['shared', 'vendored']);
+    expect(lock.skills.shared).toEqual(buildLock(root, [SOURCE]).skills.shared);
+
+    writeLock(root, lock);
+    writeSkill(root, 'vendored', { source: vendor, body: 'updated' });
+    expect(verifyLock(root, [vendor, SOURCE]).changed).toEqual(['vendored']);
+  });
+
+  it('should fail without a lockfile', () => {
+    writeSkill(root, 'skill-a');
+    expect(() => verifyLock(root, [SOURCE])).toThrow('skillink lock');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { buildMatrix, renderMatrix } from '../src/matrix.ts';
+import type { StatusEntry } from '../src/sync.ts';
+
+function status(agent: string, overrides: Partial<StatusEntry> = {}): StatusEntry {
+  return {
+    agent,
+    skillsDir: `.${agent}/skills`,
+    linked: [],
+    unlinked: [],
+    wrong: [],
+    copied: [],
+    stale: [],
+    modified: [],
+    generated: [],
+    notApplicable: [],
+    dangling: [],
+    unmanaged: [],
+    shadowed: [],
+    foreign: [],
+    ignored: [],
+    ...overrides,
+  };
+}
+
+const STATUSES = [
+  status('claude-code', { linked: ['lint'], wrong: ['deploy'], dangling: ['gone'] }),
+  status('opencode', {
+    linked: ['deploy'],
+    unlinked: ['lint'],
+    unmanaged: ['lint', 'notes'],
+    shadowed: ['lint'],
+  }),
+];
+
+describe('buildMatrix', () => {
+  it('should put each skill in a row with its state per agent', () => {
+    const matrix = buildMatrix(STATUSES);
+
+    expect(matrix.skills).toEqual(['deploy', 'gone', 'lint']);
+    expect(matrix.agents).toEqual(['claude-code', 'opencode']);
+    expect(matrix.cells.deploy).toEqual({ 'claude-code': 'wrong', opencode: 'linked' });
+    expect(matrix.cells.gone).toEqual({ 'claude-code': 'dangling' });
+    // Extra unmanaged entries are listed separately, not as rows
+    expect(matrix.cells.notes).toBeUndefined();
+  });
+});
+
+describe('renderMatrix', () => {
+  const matrix = buildMatrix(STATUSES);
+
+  it('should head columns with agent names when they fit', () => {
+    expect(renderMatrix(matrix, 80)).toEqual([
+      '          claude-code  opencode',
+      '  deploy  ✗            ●',
+      '  gone    †',
+      '  lint    ●            ■',
+      '',
+      '  ● linked  ✗ wrong target  ■ real dir  † dangling',
+    ]);
+  });
+
+  it('should number the columns and split them on narrow terminals', () => {
+    const lines = renderMatrix(matrix, 12);
+
+    expect(lines.slice(0, 10)).toEqual([
+      '          1',
+      '  deploy  ✗',
+      '  gone    †',
+      '  lint    ●',
+      '',
+      '          2',
+      '  deploy  ●',
+      '  gone',
+      '  lint    ■',
+      '',
+    ]);
+    expect(lines.slice(0, 9).every((line) => line.length <= 12)).toBe(true);
+    expect(lines).toContain('  1 claude-code');
+    expect(lines).toContain('  2 opencode');
+  });
+
+  it('should cut long skill names', () => {
+    const long = buildMatrix([status('a', { linked: ['x'.repeat(60)] })]);
+    const [, row] = renderMatrix(long, 40);
+
+    expect(row).toBe(`  ${'x'.repeat(15)}…  ●`);
+  });
+});
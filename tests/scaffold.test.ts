@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { listTemplates, scaffoldSkill, TEMPLATES_DIR } from '../src/scaffold.ts';
+import { isValidSkill, loadSkill } from '../src/skills.ts';
+import { SOURCE, useTempProject } from './helpers.ts';
+
+describe('scaffoldSkill', () => {
+  let root: string;
+
+  useTempProject((dir) => (root = dir));
+
+  it('should create a valid skill from the built-in template', () => {
+    const dir = scaffoldSkill(root, SOURCE, 'code-review', {
+      description: 'Review code: style and bugs',
+      folders: ['scripts', 'references'],
+    });
+
+    const skill = loadSkill(dir, 'code-review');
+    expect(isValidSkill(skill)).toBe(true);
+    expect(skill.frontmatter.description).toBe('Review code: style and bugs');
+    expect(skill.body).toContain('# Code Review');
+    expect(existsSync(join(dir, 'scripts', '.gitkeep'))).toBe(true);
+    expect(existsSync(join(dir, 'references', '.gitkeep'))).toBe(true);
+  });
+
+  it('should reject invalid names and existing skills', () => {
+    expect(() => scaffoldSkill(root, SOURCE, 'Bad_Name', { description: 'x' })).toThrow(
+      'Invalid skill name',
+    );
+
+    scaffoldSkill(root, SOURCE, 'demo', { description: 'x' });
+    expect(() => scaffoldSkill(root, SOURCE, 'demo', { description: 'x' })).toThrow(
+      'already exists',
+    );
+  });
+
+  it('should copy project templates and fill in their SKILL.md', () => {
+    const templateDir = join(root, TEMPLATES_DIR, 'tool');
+    mkdirSync(join(templateDir, 'scripts'), { recursive: true });
+    writeFileSync(
+      join(templateDir, 'SKILL.md'),
+      '---\nname: {{name}}\ndescription: {{ description }}\n---\nRun scripts/run.sh for {{title}}\n',
+    );
+    writeFileSync(join(templateDir, 'scripts', 'run.sh'), 'echo {{name}}\n');
+
+    expect(listTemplates(root).map((t) => t.name)).toEqual(['tool', 'default', 'minimal']);
+
+    const dir = scaffoldSkill(root, SOURCE, 'lint', { description: 'Lint', template: 'tool' });
+
+    expect(readFileSync(join(dir, 'SKILL.md'), 'utf-8')).toBe(
+      '---\nname: lint\ndescription: Lint\n---\nRun scripts/run.sh for Lint\n',
+    );
+    expect(readFileSync(join(dir, 'scripts', 'run.sh'), 'utf-8')).toBe('echo {{name}}\n');
+  });
+
+  it('should fail on unknown templates', () => {
+    expect(() =>
+      scaffoldSkill(root, SOURCE, 'demo', { description: 'x', template: 'nope' }),
+    ).toThrow('Unknown template "nope" (available: default, minimal)');
+  });
+});
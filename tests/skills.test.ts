@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { FrontmatterError, parseFrontmatter } from '../src/frontmatter.ts';
+import {
+  findFlattenCollisions,
+  findNameClashes,
+  flattenName,
+  isValidSkill,
+  loadSkill,
+  loadSkills,
+} from '../src/skills.ts';
+import { useTempProject } from './helpers.ts';
+
+describe('parseFrontmatter', () => {
+  it('should return null without frontmatter', () => {
+    expect(parseFrontmatter('# Title\n')).toBeNull();
+  });
+
+  it('should parse scalars, lists and nested maps', () => {
+    const parsed = parseFrontmatter(
+      [
+        '---',
+        'name: my-skill',
+        'description: "Does things: well"',
+        'version: 2',
+        'agents: [claude-code, opencode]',
+        'allowed-tools:',
+        '  - Bash',
+        '  - Read',
+        'metadata:',
+        '  author: someone',
+        '---',
+        '# Body',
+      ].join('\n'),
+    );
+
+    expect(parsed!.data).toEqual({
+      name: 'my-skill',
+      description: 'Does things: well',
+      version: 2,
+      agents: ['claude-code', 'opencode'],
+      'allowed-tools': ['Bash', 'Read'],
+      metadata: { author: 'someone' },
+    });
+    expect(parsed!.body).toBe('# Body');
+    expect(parsed!.bodyLine).toBe(12);
+  });
+
+  it('should parse block scalars', () => {
+    const parsed = parseFrontmatter(
+      '---\ndescription: >\n  first line\n  second line\n---\n',
+    );
+    expect(parsed!.data.description).toBe('first line second line');
+  });
+
+  it('should unescape double-quoted strings as YAML does', () => {
+    const parsed = parseFrontmatter(
+      '---\ndescription: "Tab:\there, \\e[1mbold\\e[0m, \\x41\\u00e9 \\"q\\" \\\\"\n---\n',
+    );
+    expect(parsed!.data.description).toBe('Tab:\there, \x1b[1mbold\x1b[0m, A\u00e9 "q" \\');
+  });
+
+  it('should allow comments after quoted scalars and inline lists', () => {
+    const parsed = parseFrontmatter(
+      '---\ndescription: "Review code" # short\nlicense: \'MIT\' # spdx\nagents: [a, b] # all\n---\n',
+    );
+    expect(parsed!.data).toEqual({ description: 'Review code', license: 'MIT', agents: ['a', 'b'] });
+    expect(() => parseFrontmatter('---\ndescription: "a" b\n---\n')).toThrow(
+      'Unexpected "b" after the closing quote',
+    );
+  });
+
+  it('should not split inline lists inside quoted items', () => {
+    const parsed = parseFrontmatter(
+      '---\nagents: [claude-code, "open,code", \'it\'\'s, here\', "a\\"]", plain]\n---\n',
+    );
+    expect(parsed!.data.agents).toEqual(['claude-code', 'open,code', "it's, here", 'a"]', 'plain']);
+  });
+
+  it('should report bad escapes as frontmatter errors', () => {
+    expect(() => parseFrontmatter('---\nname: a\ndescription: "\\q"\n---\n')).toThrow(
+      new FrontmatterError('Invalid escape "\\q" in double-quoted string', 3),
+    );
+  });
+
+  it('should report errors with line numbers', () => {
+    const parse = () => parseFrontmatter('---\nname: a\nnot yaml\n---\n');
+    expect(parse).toThrow(FrontmatterError);
+    try {
+      parse();
+    } catch (e) {
+      expect((e as FrontmatterError).line).toBe(3);
+    }
+  });
+
+  it('should reject unterminated frontmatter', () => {
+    expect(() => parseFrontmatter('---\nname: a\n')).toThrow('Unterminated');
+  });
+});
+
+describe('loadSkill', () => {
+  let root: string;
+
+  useTempProject((dir) => (root = dir));
+
+  function writeSkill(name: string, content?: string) {
+    const dir = join(root, name);
+    mkdirSync(dir, { recursive: true });
+    if (content !== undefined) writeFileSync(join(dir, 'SKILL.md'), content);
+    return dir;
+  }
+
+  it('should load a valid skill', () => {
+    const dir = writeSkill('skill-a', '---\nname: skill-a\ndescription: Test\n---\nBody\n');
+    const skill = loadSkill(dir, 'skill-a');
+
+    expect(skill.issues).toEqual([]);
+    expect(skill.frontmatter.description).toBe('Test');
+    expect(isValidSkill(skill)).toBe(true);
+  });
+
+  it('should report a missing SKILL.md', () => {
+    const skill = loadSkill(writeSkill('skill-a'), 'skill-a');
+
+    expect(skill.issues[0].message).toContain('Missing SKILL.md');
+    expect(isValidSkill(skill)).toBe(false);
+  });
+
+  it('should report a name that does not match the directory', () => {
+    const dir = writeSkill('skill-a', '---\ndescription: Test\nname: other\n---\n');
+    const skill = loadSkill(dir, 'skill-a');
+
+    expect(skill.issues).toHaveLength(1);
+    expect(skill.issues[0].message).toContain('does not match');
+    expect(skill.issues[0].line).toBe(3);
+  });
+
+  it('should report empty descriptions', () => {
+    const dir = writeSkill('skill-a', "---\nname: skill-a\ndescription: ''\n---\n");
+    const skill = loadSkill(dir, 'skill-a');
+
+    expect(skill.issues[0].message).toContain('Empty "description"');
+    expect(skill.issues[0].line).toBe(3);
+  });
+
+  it('should report bad YAML with its line', () => {
+    const dir = writeSkill('skill-a', '---\nname: skill-a\ndescription: [oops\n---\n');
+    const skill = loadSkill(dir, 'skill-a');
+
+    expect(skill.issues[0].message).toContain('Invalid frontmatter');
+    expect(skill.issues[0].line).toBe(3);
+  });
+
+  it('should find skills defined in two sources', () => {
+    writeSkill('a/shared');
+    writeSkill('a/only-a');
+    writeSkill('b/shared');
+
+    expect(
+      findNameClashes({ root, source: 'a' }, { root, source: 'b' }),
+    ).toEqual(['shared']);
+    expect(findNameClashes({ root, source: 'a' }, { root, source: 'missing' })).toEqual([]);
+  });
+
+  it('should load all skills in a source directory', () => {
+    writeSkill('skill-a', '---\nname: skill-a\ndescription: Test\n---\n');
+    writeSkill('skill-b');
+
+    const skills = loadSkills(root, '.');
+    expect(skills.map((s) => s.dirName).sort()).toEqual(['skill-a', 'skill-b']);
+  });
+
+  it('should find skills nested in category folders', () => {
+    const skill = (name: string) => `---\nname: ${name}\ndescription: Test\n---\n`;
+    writeSkill('src/top', skill('top'));
+    writeSkill('src/frontend/react-review', skill('react-review'));
+    writeSkill('src/frontend/css/tokens', skill('tokens'));
+    writeSkill('src/top/scripts');
+    writeSkill('src/empty');
+
+    const skills = loadSkills(root, 'src');
+    expect(skills.map((s) => s.dirName).sort()).toEqual([
+      'empty',
+      'frontend/css/tokens',
+      'frontend/react-review',
+      'top',
+    ]);
+    expect(skills.find((s) => s.dirName === 'frontend/react-review')!.issues).toEqual([]);
+  });
+
+  it('should flatten nested names and detect collisions', () => {
+    expect(flattenName('frontend/css/tokens')).toBe('frontend--css--tokens');
+    expect(flattenName('frontend/css/tokens', 'leaf')).toBe('tokens');
+
+    const ids = ['frontend/review', 'backend/review', 'deploy'];
+    expect(findFlattenCollisions(ids).size).toBe(0);
+    expect([...findFlattenCollisions(ids, 'leaf')]).toEqual([
+      ['review', ['frontend/review', 'backend/review']],
+    ]);
+  });
+});
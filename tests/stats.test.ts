@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { collectStats, estimateTokens } from '../src/stats.ts';
+import { SOURCE, useTempProject, writeSkill } from './helpers.ts';
+
+describe('collectStats', () => {
+  let root: string;
+  useTempProject((dir) => (root = dir));
+
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('should measure files, bytes and tokens per skill and in total', () => {
+    writeSkill(root, 'lint', { description: 'Lint code', body: 'x'.repeat(400) });
+    mkdirSync(join(root, SOURCE, 'lint/references'));
+    writeFileSync(join(root, SOURCE, 'lint/references/rules.md'), 'r'.repeat(2000));
+    writeFileSync(join(root, SOURCE, 'lint/references/extra.md'), 'e'.repeat(10));
+    writeSkill(root, 'deploy', { description: 'Deploy' });
+
+    const report = collectStats(root, [SOURCE]);
+    const lint = report.skills.find((s) => s.skill === 'lint')!;
+
+    expect(lint.files).toBe(3);
+    expect(lint.descriptionTokens).toBe(3);
+    expect(lint.bodyTokens).toBe(100);
+    expect(lint.largest).toEqual([
+      { path: 'references/rules.md', bytes: 2000 },
+      { path: 'references/extra.md', bytes: 10 },
+    ]);
+    expect(report.total).toMatchObject({ skills: 2, files: 4, descriptionTokens: 5 });
+    expect(report.total.bytes).toBe(report.skills.reduce((sum, s) => sum + s.bytes, 0));
+    expect(report.violations).toEqual([]);
+  });
+
+  it('should report exceeded thresholds', () => {
+    writeSkill(root, 'lint', { description: 'Lint code', body: 'x'.repeat(400) });
+    writeSkill(root, 'deploy', { description: 'Deploy' });
+
+    const report = collectStats(root, [SOURCE], {
+      maxBodyTokens: 50,
+      maxTotalDescriptionTokens: 4,
+      maxDescriptionTokens: 10,
+    });
+
+    expect(report.violations).toEqual([
+      { limit: 'maxBodyTokens', skill: 'lint', value: 100, max: 50 },
+      { limit: 'maxTotalDescriptionTokens', value: 5, max: 4 },
+    ]);
+  });
+
+  it('should only count the winning skill of layered sources', () => {
+    writeSkill(root, 'lint', { description: 'Lint code', body: 'x'.repeat(40) });
+    mkdirSync(join(root, 'vendor/lint'), { recursive: true });
+    writeFileSync(join(root, 'vendor/lint/SKILL.md'), '---\nname: lint\ndescription: Old\n---\n');
+
+    const report = collectStats(root, ['vendor', SOURCE]);
+    expect(report.skills.map((s) => [s.skill, s.source, s.bodyTokens])).toEqual([
+      ['lint', SOURCE, 10],
+    ]);
+  });
+});
@@ -5,6 +5,7 @@ import {
   writeFileSync,
   existsSync,
   lstatSync,
+  readFileSync,
   readlinkSync,
   symlinkSync,
 } from 'fs';
@@ -12,6 +13,7 @@ import { join, relative } from 'path';
 import { tmpdir } from 'os';
 import { rmSync } from 'fs';
 import { syncSkills, cleanSkills, getStatus } from '../src/sync.ts';
+import { readManifest } from '../src/copy.ts';
 
 function createTempProject() {
   const root = mkdtempSync(join(tmpdir(), 'skillink-test-'));
@@ -26,12 +28,20 @@ function setupSkills(root: string, skills: string[]) {
     mkdirSync(skillDir, { recursive: true });
     writeFileSync(
       join(skillDir, 'SKILL.md'),
-      `---\nname: ${skill}\ndescription: Test skill\n---\n# ${skill}\n`,
+      `---\nname: ${skill.split('/').pop()}\ndescription: Test skill\n---\n# ${skill}\n`,
     );
   }
   return skillsDir;
 }
 
+function isLink(path: string) {
+  try {
+    return lstatSync(path).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
+
 describe('syncSkills', () => {
   let root: string;
 
@@ -181,6 +191,120 @@ describe('syncSkills', () => {
     expect(result.failed).toHaveLength(0);
   });
 
+  it('should prune dangling links to removed skills', () => {
+    const skillsDir = setupSkills(root, ['skill-a', 'skill-b']);
+    const agents = { 'claude-code': { skillsDir: '.claude/skills' } };
+    syncSkills(root, { agents });
+
+    rmSync(join(skillsDir, 'skill-b'), { recursive: true });
+    const result = syncSkills(root, { agents });
+
+    expect(result.removed).toHaveLength(1);
+    expect(result.removed[0].skill).toBe('skill-b');
+    expect(isLink(join(root, '.claude', 'skills', 'skill-b'))).toBe(false);
+    expect(isLink(join(root, '.claude', 'skills', 'skill-a'))).toBe(true);
+  });
+
+  it('should keep dangling links that point outside the source', () => {
+    setupSkills(root, ['skill-a']);
+    const targetDir = join(root, '.claude', 'skills');
+    mkdirSync(targetDir, { recursive: true });
+    symlinkSync(join(root, 'elsewhere'), join(targetDir, 'foreign'));
+
+    const result = syncSkills(root, {
+      agents: { 'claude-code': { skillsDir: '.claude/skills' } },
+    });
+
+    expect(result.removed).toHaveLength(0);
+    expect(isLink(join(targetDir, 'foreign'))).toBe(true);
+  });
+
+  it('should record failures per entry and keep going', () => {
+    setupSkills(root, ['skill-a']);
+    // A file where the agent dir should be makes every link fail
+    mkdirSync(join(root, '.broken'));
+    writeFileSync(join(root, '.broken', 'skills'), '');
+
+    const result = syncSkills(root, {
+      agents: {
+        broken: { skillsDir: '.broken/skills' },
+        'claude-code': { skillsDir: '.claude/skills' },
+      },
+    });
+
+    expect(result.failed).toHaveLength(1);
+    expect(result.failed[0].agent).toBe('broken');
+    expect(result.failed[0].reason).toMatch(/ENOTDIR|EEXIST/);
+    expect(result.created.map((e) => e.agent)).toEqual(['claude-code']);
+    expect(result.rolledBack).toBeUndefined();
+    expect(isLink(join(root, '.claude', 'skills', 'skill-a'))).toBe(true);
+  });
+
+  it('should roll back the whole run in atomic mode', () => {
+    const skillsDir = setupSkills(root, ['skill-a', 'skill-b']);
+    const claude = { 'claude-code': { skillsDir: '.claude/skills' } };
+    syncSkills(root, { agents: claude });
+    rmSync(join(skillsDir, 'skill-b'), { recursive: true });
+    setupSkills(root, ['skill-c']);
+    mkdirSync(join(root, '.broken'));
+    writeFileSync(join(root, '.broken', 'skills'), '');
+
+    const result = syncSkills(root, {
+      agents: { ...claude, broken: { skillsDir: '.broken/skills' } },
+      atomic: true,
+    });
+
+    expect(result.failed.length).toBeGreaterThan(0);
+    expect(result.rolledBack).toBe(true);
+    // The new link is gone again and the pruned dangling link is restored
+    expect(isLink(join(root, '.claude', 'skills', 'skill-c'))).toBe(false);
+    expect(isLink(join(root, '.claude', 'skills', 'skill-b'))).toBe(true);
+    expect(isLink(join(root, '.claude', 'skills', 'skill-a'))).toBe(true);
+  });
+
+  it('should not prune when prune is false or in dry-run', () => {
+    const skillsDir = setupSkills(root, ['skill-a']);
+    const agents = { 'claude-code': { skillsDir: '.claude/skills' } };
+    syncSkills(root, { agents });
+    rmSync(join(skillsDir, 'skill-a'), { recursive: true });
+
+    expect(syncSkills(root, { agents, prune: false }).removed).toHaveLength(0);
+    expect(syncSkills(root, { agents, dryRun: true }).removed).toHaveLength(1);
+    expect(isLink(join(root, '.claude', 'skills', 'skill-a'))).toBe(true);
+  });
+
+  it('should not link invalid skills', () => {
+    const skillsDir = setupSkills(root, ['skill-a']);
+    mkdirSync(join(skillsDir, 'no-skill-md'));
+
+    const result = syncSkills(root, {
+      agents: { 'claude-code': { skillsDir: '.claude/skills' } },
+    });
+
+    expect(result.created).toHaveLength(1);
+    expect(result.skipped).toHaveLength(1);
+    expect(result.skipped[0].reason).toContain('invalid');
+    expect(existsSync(join(root, '.claude', 'skills', 'no-skill-md'))).toBe(false);
+  });
+
+  it('should use a custom source directory', () => {
+    const skillDir = join(root, 'skills', 'skill-a');
+    mkdirSync(skillDir, { recursive: true });
+    writeFileSync(
+      join(skillDir, 'SKILL.md'),
+      '---\nname: skill-a\ndescription: Test skill\n---\n',
+    );
+
+    const result = syncSkills(root, {
+      agents: { 'claude-code': { skillsDir: '.claude/skills' } },
+      source: 'skills',
+    });
+
+    expect(result.created).toHaveLength(1);
+    const link = readlinkSync(join(root, '.claude', 'skills', 'skill-a'));
+    expect(link).toBe(join('..', '..', 'skills', 'skill-a'));
+  });
+
   it('should error when .agents/skills does not exist', () => {
     expect(() =>
       syncSkills(root, {
@@ -190,6 +314,166 @@ describe('syncSkills', () => {
   });
 });
 
+describe('nested skills', () => {
+  let root: string;
+  const agents = { 'claude-code': { skillsDir: '.claude/skills' } };
+
+  beforeEach(() => {
+    root = createTempProject();
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should link nested skills under their flattened name', () => {
+    setupSkills(root, ['frontend/react-review', 'deploy']);
+
+    const result = syncSkills(root, { agents });
+    expect(result.created.map((e) => e.skill).sort()).toEqual([
+      'deploy',
+      'frontend--react-review',
+    ]);
+    expect(readlinkSync(join(root, '.claude/skills/frontend--react-review'))).toBe(
+      join('..', '..', '.agents', 'skills', 'frontend', 'react-review'),
+    );
+    expect(getStatus(root, { agents })[0].linked.sort()).toEqual([
+      'deploy',
+      'frontend--react-review',
+    ]);
+
+    const cleaned = cleanSkills(root, { agents, filterSkills: ['frontend/react-review'] });
+    expect(cleaned.removed.map((e) => e.skill)).toEqual(['frontend--react-review']);
+  });
+
+  it('should skip skills whose leaf names collide', () => {
+    setupSkills(root, ['frontend/review', 'backend/review', 'deploy']);
+
+    const result = syncSkills(root, { agents, flatten: 'leaf' });
+    expect(result.created.map((e) => e.skill)).toEqual(['deploy']);
+    expect(result.skipped.map((e) => e.reason).sort()).toEqual([
+      'name collision with backend/review',
+      'name collision with frontend/review',
+    ]);
+    expect(existsSync(join(root, '.claude/skills/review'))).toBe(false);
+  });
+});
+
+describe('ignored and filtered skills', () => {
+  let root: string;
+  const agents = { 'claude-code': { skillsDir: '.claude/skills' } };
+
+  beforeEach(() => {
+    root = createTempProject();
+    setupSkills(root, ['lint', 'deploy', 'drafts/wip']);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should not link skills in .skillinkignore', () => {
+    writeFileSync(join(root, '.agents/skills/.skillinkignore'), '# scratch\ndrafts/\n');
+
+    const result = syncSkills(root, { agents });
+    expect(result.created.map((e) => e.skill).sort()).toEqual(['deploy', 'lint']);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('should report ignored skills that are still linked, and prune them on request', () => {
+    syncSkills(root, { agents });
+    writeFileSync(join(root, '.agents/skills/.skillinkignore'), 'deploy\n');
+
+    const result = syncSkills(root, { agents });
+    expect(result.removed).toEqual([]);
+    expect(result.skipped.find((e) => e.skill === 'deploy')?.reason).toBe(
+      'ignored but still linked',
+    );
+    expect(getStatus(root, { agents })[0].ignored).toEqual(['deploy']);
+
+    const pruned = syncSkills(root, { agents, pruneIgnored: true });
+    expect(pruned.removed.map((e) => [e.skill, e.reason])).toEqual([['deploy', 'ignored']]);
+    expect(isLink(join(root, '.claude/skills/deploy'))).toBe(false);
+    expect(getStatus(root, { agents })[0].ignored).toEqual([]);
+  });
+
+  it('should only touch skills picked by --skill and --exclude', () => {
+    const result = syncSkills(root, {
+      agents,
+      filterSkills: ['lint', 'drafts/wip'],
+      exclude: ['drafts/*'],
+    });
+    expect(result.created.map((e) => e.skill)).toEqual(['lint']);
+
+    syncSkills(root, { agents });
+    const [status] = getStatus(root, { agents, exclude: ['d*'] });
+    expect(status.linked).toEqual(['lint']);
+
+    const cleaned = cleanSkills(root, { agents, exclude: ['drafts--*'] });
+    expect(cleaned.removed.map((e) => e.skill).sort()).toEqual(['deploy', 'lint']);
+    expect(isLink(join(root, '.claude/skills/drafts--wip'))).toBe(true);
+  });
+});
+
+describe('layered sources', () => {
+  let root: string;
+  const agents = { 'claude-code': { skillsDir: '.claude/skills' } };
+  const layered = { agents, layers: ['vendor/org'] };
+
+  beforeEach(() => {
+    root = createTempProject();
+    setupSkills(root, ['review', 'local']);
+    for (const skill of ['review', 'deploy']) {
+      mkdirSync(join(root, 'vendor/org', skill), { recursive: true });
+      writeFileSync(
+        join(root, 'vendor/org', skill, 'SKILL.md'),
+        `---\nname: ${skill}\ndescription: Vendored\n---\n`,
+      );
+    }
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should link each skill from the highest layer that has it', () => {
+    const result = syncSkills(root, layered);
+
+    expect(result.created.map((e) => e.skill).sort()).toEqual(['deploy', 'local', 'review']);
+    expect(readlinkSync(join(root, '.claude/skills/review'))).toBe(
+      join('..', '..', '.agents', 'skills', 'review'),
+    );
+    expect(readlinkSync(join(root, '.claude/skills/deploy'))).toBe(
+      join('..', '..', 'vendor', 'org', 'deploy'),
+    );
+
+    const [status] = getStatus(root, layered);
+    expect(status.layers).toEqual({
+      review: '.agents/skills',
+      local: '.agents/skills',
+      deploy: 'vendor/org',
+    });
+  });
+
+  it('should fall back to a lower layer when an override is removed', () => {
+    syncSkills(root, layered);
+    rmSync(join(root, '.agents/skills/review'), { recursive: true });
+
+    syncSkills(root, layered);
+    expect(readlinkSync(join(root, '.claude/skills/review'))).toBe(
+      join('..', '..', 'vendor', 'org', 'review'),
+    );
+  });
+
+  it('should clean links into every layer', () => {
+    syncSkills(root, layered);
+
+    const result = cleanSkills(root, layered);
+    expect(result.removed.map((e) => e.skill).sort()).toEqual(['deploy', 'local', 'review']);
+    expect(result.skipped).toEqual([]);
+  });
+});
+
 describe('cleanSkills', () => {
   let root: string;
 
@@ -214,11 +498,23 @@ describe('cleanSkills', () => {
       agents: { 'claude-code': { skillsDir: '.claude/skills' } },
     });
 
-    expect(result.created).toHaveLength(2); // "created" here means "removed"
+    expect(result.created).toHaveLength(0);
+    expect(result.removed).toHaveLength(2);
     expect(existsSync(join(root, '.claude', 'skills', 'skill-a'))).toBe(false);
     expect(existsSync(join(root, '.claude', 'skills', 'skill-b'))).toBe(false);
   });
 
+  it('should only remove filtered skills', () => {
+    setupSkills(root, ['skill-a', 'skill-b']);
+    const agents = { 'claude-code': { skillsDir: '.claude/skills' } };
+    syncSkills(root, { agents });
+
+    const result = cleanSkills(root, { agents, filterSkills: ['skill-a'] });
+
+    expect(result.removed.map((e) => e.skill)).toEqual(['skill-a']);
+    expect(existsSync(join(root, '.claude', 'skills', 'skill-b'))).toBe(true);
+  });
+
   it('should preserve real directories', () => {
     const realDir = join(root, '.claude', 'skills', 'my-real-skill');
     mkdirSync(realDir, { recursive: true });
@@ -244,12 +540,183 @@ describe('cleanSkills', () => {
       dryRun: true,
     });
 
-    expect(result.created).toHaveLength(1);
+    expect(result.removed).toHaveLength(1);
     // Symlink should still exist
     expect(existsSync(join(root, '.claude', 'skills', 'skill-a'))).toBe(true);
   });
 });
 
+describe('agent targeting', () => {
+  let root: string;
+  const agents = {
+    'claude-code': { skillsDir: '.claude/skills' },
+    opencode: { skillsDir: '.opencode/skills' },
+  };
+
+  beforeEach(() => {
+    root = createTempProject();
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function writeTargetedSkill(name: string, extra: string) {
+    const dir = join(root, '.agents', 'skills', name);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(
+      join(dir, 'SKILL.md'),
+      `---\nname: ${name}\ndescription: Test skill\n${extra}\n---\n`,
+    );
+  }
+
+  it('should only link skills to the agents they target', () => {
+    writeTargetedSkill('only-claude', 'agents: [claude-code]');
+    writeTargetedSkill('not-claude', 'exclude-agents: [claude-code]');
+
+    const result = syncSkills(root, { agents });
+
+    expect(result.created.map((e) => `${e.skill}@${e.agent}`).sort()).toEqual([
+      'not-claude@opencode',
+      'only-claude@claude-code',
+    ]);
+    expect(result.skipped.every((e) => e.reason?.includes('not applicable'))).toBe(true);
+  });
+
+  it('should let project config override frontmatter', () => {
+    writeTargetedSkill('only-claude', 'agents: [claude-code]');
+
+    const result = syncSkills(root, {
+      agents,
+      skills: { 'only-claude': { agents: ['opencode'] } },
+    });
+
+    expect(result.created.map((e) => e.agent)).toEqual(['opencode']);
+  });
+
+  it('should prune links for skills that were retargeted', () => {
+    writeTargetedSkill('skill-a', '');
+    syncSkills(root, { agents });
+
+    const result = syncSkills(root, {
+      agents,
+      skills: { 'skill-a': { excludeAgents: ['opencode'] } },
+    });
+
+    expect(result.removed).toHaveLength(1);
+    expect(result.removed[0].reason).toContain('not applicable');
+    expect(existsSync(join(root, '.opencode', 'skills', 'skill-a'))).toBe(false);
+  });
+
+  it('should report not applicable skills separately in status', () => {
+    writeTargetedSkill('only-claude', 'agents: [claude-code]');
+
+    const statuses = getStatus(root, { agents });
+    const opencode = statuses.find((s) => s.agent === 'opencode')!;
+
+    expect(opencode.notApplicable).toEqual(['only-claude']);
+    expect(opencode.unlinked).toEqual([]);
+  });
+});
+
+describe('copy mode', () => {
+  let root: string;
+  const agents = {
+    'claude-code': { skillsDir: '.claude/skills', mode: 'copy' as const },
+  };
+
+  beforeEach(() => {
+    root = createTempProject();
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should copy skills and record them in the manifest', () => {
+    setupSkills(root, ['skill-a']);
+
+    const result = syncSkills(root, { agents });
+
+    const copy = join(root, '.claude', 'skills', 'skill-a');
+    expect(result.created).toHaveLength(1);
+    expect(lstatSync(copy).isDirectory()).toBe(true);
+    expect(readFileSync(join(copy, 'SKILL.md'), 'utf-8')).toContain('skill-a');
+    expect(readManifest(root).copies['.claude/skills/skill-a'].skill).toBe('skill-a');
+  });
+
+  it('should only rewrite stale copies', () => {
+    const skillsDir = setupSkills(root, ['skill-a', 'skill-b']);
+    syncSkills(root, { agents });
+
+    writeFileSync(join(skillsDir, 'skill-a', 'notes.md'), 'new');
+    const result = syncSkills(root, { agents });
+
+    expect(result.created.map((e) => e.skill)).toEqual(['skill-a']);
+    expect(result.skipped[0].reason).toContain('up to date');
+    expect(existsSync(join(root, '.claude', 'skills', 'skill-a', 'notes.md'))).toBe(true);
+  });
+
+  it('should report copy state in status', () => {
+    const skillsDir = setupSkills(root, ['skill-a', 'skill-b', 'skill-c']);
+    syncSkills(root, { agents });
+
+    writeFileSync(join(skillsDir, 'skill-b', 'notes.md'), 'new');
+    writeFileSync(join(root, '.claude', 'skills', 'skill-c', 'notes.md'), 'edit');
+
+    const [status] = getStatus(root, { agents });
+    expect(status.copied).toEqual(['skill-a']);
+    expect(status.stale).toEqual(['skill-b']);
+    expect(status.modified).toEqual(['skill-c']);
+  });
+
+  it('should not overwrite local edits unless forced', () => {
+    const skillsDir = setupSkills(root, ['skill-a']);
+    syncSkills(root, { agents });
+    const edited = join(root, '.claude', 'skills', 'skill-a', 'SKILL.md');
+    writeFileSync(join(skillsDir, 'skill-a', 'notes.md'), 'new');
+    writeFileSync(edited, '---\nname: skill-a\ndescription: Edited\n---\n');
+
+    const result = syncSkills(root, { agents });
+    expect(result.created).toHaveLength(0);
+    expect(result.skipped[0].reason).toContain('modified locally');
+    expect(readFileSync(edited, 'utf-8')).toContain('Edited');
+
+    const forced = syncSkills(root, { agents, force: true });
+    expect(forced.created).toHaveLength(1);
+    expect(readFileSync(edited, 'utf-8')).not.toContain('Edited');
+  });
+
+  it('should prune copies of removed skills and clean the rest', () => {
+    const skillsDir = setupSkills(root, ['skill-a', 'skill-b']);
+    syncSkills(root, { agents });
+
+    rmSync(join(skillsDir, 'skill-b'), { recursive: true });
+    const result = syncSkills(root, { agents });
+    expect(result.removed.map((e) => e.skill)).toEqual(['skill-b']);
+    expect(existsSync(join(root, '.claude', 'skills', 'skill-b'))).toBe(false);
+
+    const cleaned = cleanSkills(root, { agents });
+    expect(cleaned.removed).toHaveLength(1);
+    expect(existsSync(join(root, '.claude', 'skills', 'skill-a'))).toBe(false);
+    expect(readManifest(root).copies).toEqual({});
+  });
+
+  it('should replace symlinks when switching modes', () => {
+    setupSkills(root, ['skill-a']);
+    const link = join(root, '.claude', 'skills', 'skill-a');
+
+    syncSkills(root, { agents: { 'claude-code': { skillsDir: '.claude/skills' } } });
+    expect(lstatSync(link).isSymbolicLink()).toBe(true);
+
+    syncSkills(root, { agents });
+    expect(lstatSync(link).isSymbolicLink()).toBe(false);
+
+    syncSkills(root, { agents: { 'claude-code': { skillsDir: '.claude/skills' } } });
+    expect(lstatSync(link).isSymbolicLink()).toBe(true);
+  });
+});
+
 describe('getStatus', () => {
   let root: string;
 
@@ -287,4 +754,52 @@ describe('getStatus', () => {
     expect(status[0].linked).toHaveLength(0);
     expect(status[0].unlinked).toHaveLength(2);
   });
+
+  it('should report dangling links and unmanaged directories', () => {
+    const skillsDir = setupSkills(root, ['skill-a', 'skill-b']);
+    const agents = { 'claude-code': { skillsDir: '.claude/skills' } };
+    syncSkills(root, { agents });
+    rmSync(join(skillsDir, 'skill-b'), { recursive: true });
+    mkdirSync(join(root, '.claude', 'skills', 'hand-written'));
+
+    const status = getStatus(root, { agents });
+
+    expect(status[0].linked).toEqual(['skill-a']);
+    expect(status[0].dangling).toEqual(['skill-b']);
+    expect(status[0].unmanaged).toEqual(['hand-written']);
+  });
+
+  it('should report real directories shadowing a skill as unmanaged', () => {
+    setupSkills(root, ['skill-a']);
+    mkdirSync(join(root, '.claude', 'skills', 'skill-a'), { recursive: true });
+
+    const status = getStatus(root, {
+      agents: { 'claude-code': { skillsDir: '.claude/skills' } },
+    });
+
+    expect(status[0].linked).toEqual([]);
+    expect(status[0].unmanaged).toEqual(['skill-a']);
+    expect(status[0].shadowed).toEqual(['skill-a']);
+  });
+
+  it('should report foreign links and files apart from unmanaged directories', () => {
+    setupSkills(root, ['skill-a']);
+    mkdirSync(join(root, 'other/shared'), { recursive: true });
+    writeFileSync(join(root, 'other/shared/SKILL.md'), '---\nname: shared\n---\n');
+    const agents = { 'claude-code': { skillsDir: '.claude/skills' } };
+    syncSkills(root, { agents });
+    const dir = join(root, '.claude', 'skills');
+    symlinkSync(tmpdir(), join(dir, 'elsewhere'));
+    symlinkSync('../../other/shared', join(dir, 'shared'));
+    writeFileSync(join(dir, 'notes.md'), 'notes');
+    writeFileSync(join(dir, '.DS_Store'), '');
+
+    const [status] = getStatus(root, { agents });
+
+    expect(status.linked).toEqual(['skill-a']);
+    // Links to skills of another source in the project belong to that source
+    expect(status.foreign.sort()).toEqual(['elsewhere', 'notes.md']);
+    expect(status.unmanaged).toEqual([]);
+    expect(status.shadowed).toEqual([]);
+  });
 });
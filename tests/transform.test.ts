@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { generatedSkill, renderRule } from '../src/transform.ts';
+import { loadSkill } from '../src/skills.ts';
+import { cleanSkills, getStatus, syncSkills } from '../src/sync.ts';
+import { SOURCE, useTempProject, writeSkill } from './helpers.ts';
+
+const agents = {
+  cursor: { skillsDir: '.cursor/rules', mode: 'transform' as const, format: 'cursor' as const },
+};
+
+describe('transform', () => {
+  let root: string;
+  useTempProject((dir) => (root = dir));
+
+  /** Write and load a skill whose description needs quoting */
+  function addSkill(name: string, frontmatter = '', body = '# Body\n') {
+    const description = '"Review code: carefully"';
+    const dir = writeSkill(root, name, { description, frontmatter, body: `\n${body}` });
+    return loadSkill(dir, name);
+  }
+
+  it('should render each format with its frontmatter and a provenance header', () => {
+    const skill = addSkill('review', 'globs: [src/**/*.ts, test/**]\n');
+
+    expect(renderRule('cursor', skill, SOURCE)).toBe(
+      '---\n' +
+        'description: "Review code: carefully"\n' +
+        'globs: src/**/*.ts,test/**\n' +
+        'alwaysApply: false\n' +
+        '---\n' +
+        '<!-- Generated by skillink from .agents/skills/review/SKILL.md — edit that file and run "skillink sync". -->\n' +
+        '\n' +
+        '# Body\n',
+    );
+    expect(renderRule('copilot', skill, SOURCE)).toContain('applyTo: src/**/*.ts,test/**\n');
+    expect(renderRule('windsurf', skill, SOURCE)).toContain('trigger: glob\n');
+    expect(renderRule('windsurf', addSkill('plain'), SOURCE)).toContain(
+      'trigger: model_decision\n',
+    );
+  });
+
+  it('should recognize only files it generated from this source', () => {
+    const file = join(root, 'rule.mdc');
+    writeFileSync(file, renderRule('cursor', addSkill('review'), SOURCE));
+    expect(generatedSkill(file, SOURCE)).toBe('review');
+    expect(generatedSkill(file, 'other/skills')).toBeNull();
+
+    writeFileSync(file, '---\ndescription: mine\n---\nHand-written\n');
+    expect(generatedSkill(file, SOURCE)).toBeNull();
+  });
+
+  it('should generate, update and prune rule files', () => {
+    addSkill('review');
+    addSkill('deploy');
+    const rule = join(root, '.cursor/rules/review.mdc');
+
+    const first = syncSkills(root, { agents });
+    expect(first.created.map((e) => e.reason)).toEqual(['generated', 'generated']);
+    expect(existsSync(rule)).toBe(true);
+
+    addSkill('review', '', '# Changed\n');
+    rmSync(join(root, SOURCE, 'deploy'), { recursive: true });
+    expect(getStatus(root, { agents })[0]).toMatchObject({ stale: ['review'], dangling: ['deploy'] });
+
+    const second = syncSkills(root, { agents });
+    expect(second.created.map((e) => e.reason)).toEqual(['rule updated']);
+    expect(second.removed.map((e) => e.skill)).toEqual(['deploy']);
+    expect(readFileSync(rule, 'utf-8')).toContain('# Changed');
+    expect(getStatus(root, { agents })[0].generated).toEqual(['review']);
+  });
+
+  it('should leave hand-written rules alone in sync, status and clean', () => {
+    addSkill('review');
+    mkdirSync(join(root, '.cursor/rules'), { recursive: true });
+    writeFileSync(join(root, '.cursor/rules/review.mdc'), 'mine');
+    writeFileSync(join(root, '.cursor/rules/other.mdc'), 'mine too');
+
+    const result = syncSkills(root, { agents });
+    expect(result.skipped[0].reason).toBe('file exists, skipping');
+    expect(getStatus(root, { agents })[0].unmanaged).toEqual(['review']);
+
+    cleanSkills(root, { agents });
+    expect(readFileSync(join(root, '.cursor/rules/review.mdc'), 'utf-8')).toBe('mine');
+    expect(existsSync(join(root, '.cursor/rules/other.mdc'))).toBe(true);
+  });
+
+  it('should remove generated rules on clean', () => {
+    addSkill('review');
+    syncSkills(root, { agents });
+
+    const result = cleanSkills(root, { agents, filterSkills: ['review'] });
+
+    expect(result.removed).toHaveLength(1);
+    expect(result.removed[0]).toMatchObject({ skill: 'review', reason: 'generated' });
+    expect(existsSync(join(root, '.cursor/rules/review.mdc'))).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdirSync, renameSync, lstatSync } from 'fs';
+import { join } from 'path';
+import { watchSkills } from '../src/watch.ts';
+import { syncSkills } from '../src/sync.ts';
+import type { SyncResult } from '../src/types.ts';
+import { useTempProject, writeSkill } from './helpers.ts';
+
+describe('watchSkills', () => {
+  const agents = { 'claude-code': { skillsDir: '.claude/skills' } };
+  let root: string;
+  let stop: (() => void) | undefined;
+
+  useTempProject((dir) => {
+    root = dir;
+    mkdirSync(join(root, '.agents', 'skills'), { recursive: true });
+  });
+
+  afterEach(() => {
+    stop?.();
+  });
+
+  /** Start watching and resolve with the first sync result that matches */
+  function nextSync(match: (r: SyncResult) => boolean): Promise<SyncResult> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('no sync')), 3000);
+      stop = watchSkills(
+        root,
+        { agents },
+        {
+          debounceMs: 50,
+          onSync: (result) => {
+            if (match(result)) {
+              clearTimeout(timeout);
+              resolve(result);
+            }
+          },
+        },
+      );
+    });
+  }
+
+  it('should link a skill when it is added', async () => {
+    const synced = nextSync((r) => r.created.length > 0);
+    writeSkill(root, 'skill-a');
+
+    const result = await synced;
+    expect(result.created[0].skill).toBe('skill-a');
+    expect(lstatSync(join(root, '.claude', 'skills', 'skill-a')).isSymbolicLink()).toBe(
+      true,
+    );
+  });
+
+  it('should relink and prune when a skill is renamed', async () => {
+    writeSkill(root, 'skill-a');
+    syncSkills(root, { agents });
+
+    const synced = nextSync((r) => r.removed.length > 0);
+    const skillsDir = join(root, '.agents', 'skills');
+    renameSync(join(skillsDir, 'skill-a'), join(skillsDir, 'skill-b'));
+
+    const result = await synced;
+    expect(result.removed[0].skill).toBe('skill-a');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, mkdirSync, readlinkSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { matchGlob } from '../src/glob.ts';
+import { cleanSkills, getStatus, syncSkills } from '../src/sync.ts';
+import {
+  findCollisions,
+  findWorkspaces,
+  shadowedSkills,
+  workspacePrefix,
+} from '../src/workspaces.ts';
+import { SOURCE, useTempProject, writeSkill } from './helpers.ts';
+
+const AGENTS = { 'claude-code': { skillsDir: '.claude/skills' } };
+
+function writePackage(root: string, dir: string, name: string, skills: string[]): void {
+  mkdirSync(join(root, dir), { recursive: true });
+  writeFileSync(join(root, dir, 'package.json'), JSON.stringify({ name }));
+  for (const skill of skills) writeSkill(join(root, dir), skill);
+}
+
+describe('matchGlob', () => {
+  it('should match within and across path segments', () => {
+    expect(matchGlob('packages/*', 'packages/web')).toBe(true);
+    expect(matchGlob('packages/*', 'packages/web/sub')).toBe(false);
+    expect(matchGlob('apps/**', 'apps/a/b')).toBe(true);
+    expect(matchGlob('**/ui', 'ui')).toBe(true);
+    expect(matchGlob('./libs/?', 'libs/a')).toBe(true);
+  });
+});
+
+describe('findWorkspaces', () => {
+  let root: string;
+  useTempProject((dir) => (root = dir));
+
+  it('should read package.json workspaces and skip packages without skills', () => {
+    writeFileSync(
+      join(root, 'package.json'),
+      JSON.stringify({ workspaces: ['packages/*', '!packages/private'] }),
+    );
+    writePackage(root, 'packages/web', '@acme/web', ['lint']);
+    writePackage(root, 'packages/api', 'api', ['deploy']);
+    writePackage(root, 'packages/docs', 'docs', []);
+    writePackage(root, 'packages/private', 'private', ['secret']);
+
+    expect(findWorkspaces(root)).toEqual([
+      { name: 'api', dir: 'packages/api', source: SOURCE },
+      { name: '@acme/web', dir: 'packages/web', source: SOURCE },
+    ]);
+  });
+
+  it('should read pnpm-workspace.yaml and yarn-style package lists', () => {
+    writeFileSync(
+      join(root, 'pnpm-workspace.yaml'),
+      "packages:\n  - 'apps/*'\n  - \"libs/**\" # nested\ncatalog:\n  - ignored\n",
+    );
+    writePackage(root, 'apps/site', 'site', ['seo']);
+    writePackage(root, 'libs/ui/button', 'button', ['a11y']);
+    expect(findWorkspaces(root).map((w) => w.dir)).toEqual(['apps/site', 'libs/ui/button']);
+
+    rmSync(join(root, 'pnpm-workspace.yaml'));
+    writeFileSync(
+      join(root, 'package.json'),
+      JSON.stringify({ workspaces: { packages: ['apps/*'] } }),
+    );
+    expect(findWorkspaces(root).map((w) => w.dir)).toEqual(['apps/site']);
+  });
+
+  it('should return nothing outside a monorepo', () => {
+    writeFileSync(join(root, 'package.json'), JSON.stringify({ name: 'single' }));
+    expect(findWorkspaces(root)).toEqual([]);
+  });
+});
+
+describe('gathering into the root', () => {
+  let root: string;
+  useTempProject((dir) => {
+    root = dir;
+    writeFileSync(join(root, 'package.json'), JSON.stringify({ workspaces: ['packages/*'] }));
+  });
+
+  it('should prefix package skills with the unscoped package name', () => {
+    expect(workspacePrefix({ name: '@acme/Web.App', dir: 'packages/web', source: SOURCE })).toBe(
+      'web-app',
+    );
+  });
+
+  it('should report collisions and let the root win', () => {
+    writeSkill(root, 'web-lint');
+    writePackage(root, 'packages/web', '@acme/web', ['lint', 'format']);
+    const workspaces = findWorkspaces(root);
+
+    const collisions = findCollisions(root, SOURCE, workspaces);
+    expect(collisions).toEqual([
+      { name: 'web-lint', claimedBy: ['root', '@acme/web'], skills: ['web-lint', 'lint'] },
+    ]);
+    expect(shadowedSkills(workspaces[0], collisions)).toEqual(['lint']);
+  });
+
+  it('should sync, report and clean prefixed skills next to the root skills', () => {
+    writeSkill(root, 'shared');
+    writePackage(root, 'packages/web', '@acme/web', ['lint']);
+    const pkg = { agents: AGENTS, source: 'packages/web/.agents/skills', prefix: 'web' };
+
+    syncSkills(root, { agents: AGENTS, source: SOURCE });
+    const result = syncSkills(root, pkg);
+
+    expect(result.created.map((e) => e.skill)).toEqual(['web-lint']);
+    expect(readlinkSync(join(root, '.claude/skills/web-lint'))).toBe(
+      '../../packages/web/.agents/skills/lint',
+    );
+    // The root's own run leaves the package's links alone
+    expect(syncSkills(root, { agents: AGENTS, source: SOURCE }).removed).toEqual([]);
+
+    const [status] = getStatus(root, pkg);
+    expect(status.linked).toEqual(['web-lint']);
+    expect(status.unmanaged).toEqual([]);
+
+    const cleaned = cleanSkills(root, pkg);
+    expect(cleaned.removed.map((e) => e.skill)).toEqual(['web-lint']);
+    expect(cleaned.skipped).toEqual([]);
+    expect(existsSync(join(root, '.claude/skills/shared'))).toBe(true);
+  });
+});